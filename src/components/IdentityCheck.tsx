@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { UserCheck, IdCard, Camera } from "lucide-react";
+import type { ProctoringActions, ProctoringState } from "@/hooks/useProctoring";
+import { MAX_IDENTITY_ATTEMPTS } from "@/lib/proctoring/identity";
+
+interface IdentityCheckProps {
+  state: ProctoringState;
+  actions: ProctoringActions;
+}
+
+type Step = "face" | "id-card";
+
+const IdentityCheck = ({ state, actions }: IdentityCheckProps) => {
+  const [step, setStep] = useState<Step>("face");
+  const [facePhoto, setFacePhoto] = useState<string | null>(null);
+  const [idCardPhoto, setIdCardPhoto] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const { identity } = state;
+
+  useEffect(() => {
+    const stream = actions.getMediaStream();
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+    }
+  });
+
+  const handleCapture = () => {
+    const photo = actions.captureSnapshot();
+    if (!photo) return;
+    if (step === "face") setFacePhoto(photo);
+    else setIdCardPhoto(photo);
+  };
+
+  const handleRetake = () => {
+    if (step === "face") setFacePhoto(null);
+    else setIdCardPhoto(null);
+  };
+
+  const handleStartOver = () => {
+    setFacePhoto(null);
+    setIdCardPhoto(null);
+    setStep("face");
+    actions.retryIdentity();
+  };
+
+  const currentPhoto = step === "face" ? facePhoto : idCardPhoto;
+
+  if (identity.status === "verifying") {
+    return (
+      <Card className="w-full max-w-md mx-4 shadow-lg">
+        <CardContent className="pt-6">
+          <div className="flex flex-col items-center gap-4">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+            <p className="text-lg font-medium">Verifying your identity...</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (identity.status === "mismatch") {
+    return (
+      <Card className="w-full max-w-md mx-4 border-2 border-destructive/50 shadow-lg">
+        <CardHeader className="text-center pb-4">
+          <CardTitle className="text-2xl font-bold text-destructive">Identity Not Confirmed</CardTitle>
+          <CardDescription className="text-base mt-2">{identity.message}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Alert variant="destructive">
+            <AlertDescription>
+              ⚠️ This attempt has been logged as a violation. After {MAX_IDENTITY_ATTEMPTS} failed attempts your exam
+              continues and is flagged for manual review.
+            </AlertDescription>
+          </Alert>
+          <Button onClick={handleStartOver} className="w-full" size="lg">
+            Try Again ({MAX_IDENTITY_ATTEMPTS - identity.attempts} attempts left)
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-4 shadow-lg">
+      <CardHeader className="text-center pb-4">
+        <div className="flex justify-center mb-4">
+          <div className="p-4 bg-primary/10 rounded-full">
+            {step === "face" ? <UserCheck className="h-12 w-12 text-primary" /> : <IdCard className="h-12 w-12 text-primary" />}
+          </div>
+        </div>
+        <CardTitle className="text-2xl font-bold">
+          {step === "face" ? "Verify Your Identity" : "Photograph Your ID"}
+        </CardTitle>
+        <CardDescription className="text-base mt-2">
+          {step === "face"
+            ? "Look straight at the camera in good lighting, then take a photo."
+            : "Hold your student or government ID up to the camera so the photo and name are readable."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {identity.message && (
+          <Alert variant="destructive">
+            <AlertDescription>{identity.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {currentPhoto ? (
+          <img src={currentPhoto} alt="Captured" className="w-full rounded-lg aspect-video object-cover" />
+        ) : (
+          <video ref={videoRef} autoPlay playsInline muted className="w-full rounded-lg bg-muted aspect-video object-cover" />
+        )}
+
+        {!currentPhoto ? (
+          <Button onClick={handleCapture} className="w-full" size="lg">
+            <Camera className="h-4 w-4 mr-2" /> Take Photo
+          </Button>
+        ) : (
+          <div className="flex gap-2">
+            <Button onClick={handleRetake} variant="outline" className="flex-1">
+              Retake
+            </Button>
+            {step === "face" ? (
+              <Button onClick={() => setStep("id-card")} className="flex-1">
+                Next
+              </Button>
+            ) : (
+              <Button onClick={() => actions.verifyIdentity(facePhoto, idCardPhoto)} className="flex-1">
+                Verify
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IdentityCheck;
@@ -2,18 +2,62 @@ import { useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Camera, Mic, AlertTriangle } from "lucide-react";
+import { Camera, Mic, AlertTriangle, PauseCircle, MonitorUp, MessageSquareWarning, Ban, CheckCircle2, Circle } from "lucide-react";
 import { useProctoring, ProctoringState, ProctoringActions } from "@/hooks/useProctoring";
+import { formatScore, type ViolationPolicy } from "@/lib/proctoring/policy";
+import type { ResolvedDetector } from "@/lib/proctoring/detectors";
+import type { CaptureSchedule } from "@/lib/proctoring/captureScheduler";
+import type { SnapshotEncoding } from "@/lib/proctoring/snapshotEncoder";
+import { isIdentityComplete } from "@/lib/proctoring/identity";
+import { RESUME_CONDITION_LABELS } from "@/lib/proctoring/pause";
+import IdentityCheck from "@/components/IdentityCheck";
+import RoomScan from "@/components/RoomScan";
+import ProctorChat from "@/components/ProctorChat";
 
 interface ProctorProps {
   children: React.ReactNode;
   isSubmitted: boolean;
   currentQuestionIndex: number;
+  policy?: ViolationPolicy;
+  recordVideo?: boolean;
+  requireScreenShare?: boolean;
+  requireIdentity?: boolean;
+  requireRoomScan?: boolean;
+  liveProctoring?: boolean;
+  detectors?: ResolvedDetector[];
+  captureSchedule?: CaptureSchedule;
+  snapshotEncoding?: SnapshotEncoding;
   onProctoringReady: (state: ProctoringState, actions: ProctoringActions) => void;
 }
 
-const Proctor = ({ children, isSubmitted, currentQuestionIndex, onProctoringReady }: ProctorProps) => {
-  const { state, actions, refs } = useProctoring({ isSubmitted, currentQuestionIndex });
+const Proctor = ({
+  children,
+  isSubmitted,
+  currentQuestionIndex,
+  policy,
+  recordVideo,
+  requireScreenShare,
+  requireIdentity,
+  requireRoomScan,
+  liveProctoring,
+  detectors,
+  captureSchedule,
+  snapshotEncoding,
+  onProctoringReady,
+}: ProctorProps) => {
+  const { state, actions, refs } = useProctoring({
+    isSubmitted,
+    currentQuestionIndex,
+    policy,
+    recordVideo,
+    requireScreenShare,
+    requireIdentity,
+    requireRoomScan,
+    liveProctoring,
+    detectors,
+    captureSchedule,
+    snapshotEncoding,
+  });
 
   useEffect(() => {
     actions.startMedia();
@@ -26,11 +70,19 @@ const Proctor = ({ children, isSubmitted, currentQuestionIndex, onProctoringRead
     onProctoringReady(state, actions);
   }, [state, actions, onProctoringReady]);
 
-  const shouldBlur = !state.permissionsGranted || state.showFullscreenWarning;
+  const needsScreenShare = state.screenShareRequired && !state.screenShareActive && !isSubmitted;
+  const needsIdentity = state.identityRequired && !isIdentityComplete(state.identity) && !isSubmitted;
+  const needsRoomScan = state.roomScanRequired && state.roomScan.status !== "passed" && !isSubmitted;
+  const shouldBlur = !state.permissionsGranted
+    || state.showFullscreenWarning
+    || (state.isPaused && !isSubmitted)
+    || needsScreenShare
+    || needsIdentity
+    || needsRoomScan;
 
   const getViolationColor = () => {
-    if (state.totalViolations === 0) return "text-green-600";
-    if (state.totalViolations < 3) return "text-yellow-600";
+    if (state.violationScore === 0) return "text-green-600";
+    if (!state.isInvalidated) return "text-yellow-600";
     return "text-red-600";
   };
 
@@ -57,6 +109,7 @@ const Proctor = ({ children, isSubmitted, currentQuestionIndex, onProctoringRead
       <video ref={refs.videoRef} autoPlay playsInline muted className="hidden" />
       <audio ref={refs.audioRef} autoPlay muted className="hidden" />
       <canvas ref={refs.canvasRef} className="hidden" />
+      <video ref={refs.screenVideoRef} autoPlay playsInline muted className="hidden" />
 
       {/* Permission Warning Overlay */}
       {state.showPermissionWarning && !state.showFullscreenWarning && (
@@ -142,7 +195,9 @@ const Proctor = ({ children, isSubmitted, currentQuestionIndex, onProctoringRead
             <CardContent className="space-y-4">
               <Alert className="border-yellow-500/50 bg-yellow-500/10">
                 <AlertDescription className="text-yellow-800">
-                  ⚠️ Exiting fullscreen is counted as a violation. {3 - state.totalViolations} warnings remaining.
+                  ⚠️ Exiting fullscreen is counted as a violation.
+                  {state.violationLimit !== null &&
+                    ` ${formatScore(Math.max(state.violationLimit - state.violationScore, 0))} points remaining.`}
                 </AlertDescription>
               </Alert>
 
@@ -158,6 +213,164 @@ const Proctor = ({ children, isSubmitted, currentQuestionIndex, onProctoringRead
         </div>
       )}
 
+      {/* Screen Share Overlay */}
+      {needsScreenShare && state.permissionsGranted && !state.showFullscreenWarning && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <Card className="w-full max-w-md mx-4 border-2 border-destructive/50 shadow-lg">
+            <CardHeader className="text-center pb-4">
+              <div className="flex justify-center mb-4">
+                <div className="p-4 bg-destructive/10 rounded-full">
+                  <MonitorUp className="h-12 w-12 text-destructive" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl font-bold text-destructive">
+                Screen Sharing Required
+              </CardTitle>
+              <CardDescription className="text-base mt-2">
+                This exam requires you to share your entire screen. Choose "Entire Screen" when prompted and keep sharing until you submit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {state.screenCount !== null && state.screenCount > 1 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    ⚠️ {state.screenCount} screens detected. Please disconnect additional monitors.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <Button
+                onClick={actions.startScreenShare}
+                className="w-full bg-destructive hover:bg-destructive/90"
+                size="lg"
+              >
+                Share Entire Screen
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Identity Verification Overlay */}
+      {needsIdentity && state.permissionsGranted && !state.showFullscreenWarning && !needsScreenShare && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <IdentityCheck state={state} actions={actions} />
+        </div>
+      )}
+
+      {/* Room Scan Overlay */}
+      {needsRoomScan && !needsIdentity && state.permissionsGranted && !state.showFullscreenWarning && !needsScreenShare && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <RoomScan state={state} actions={actions} />
+        </div>
+      )}
+
+      {/* Exam Pause Overlay */}
+      {state.isPaused && !isSubmitted && !state.showFullscreenWarning && !state.showPermissionWarning && !needsScreenShare && !needsIdentity && !needsRoomScan && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <Card className="w-full max-w-md mx-4 border-2 border-yellow-500/50 shadow-lg">
+            <CardHeader className="text-center pb-4">
+              <div className="flex justify-center mb-4">
+                <div className="p-4 bg-yellow-500/10 rounded-full">
+                  <PauseCircle className="h-12 w-12 text-yellow-600" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl font-bold text-yellow-600">
+                Exam Paused
+              </CardTitle>
+              <CardDescription className="text-base mt-2">
+                {state.pause?.reason === "proctor"
+                  ? "Your proctor has paused the exam. The timer is stopped until the exam resumes."
+                  : "Your exam has been paused after a proctoring violation. The timer is stopped until you meet the conditions below."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="space-y-2">
+                {state.pause?.conditions.map((condition) => {
+                  const met = !state.unmetResumeConditions.includes(condition);
+                  return (
+                    <li key={condition} className="flex items-center gap-2 text-sm">
+                      {met ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <Circle className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <span className={met ? "text-muted-foreground line-through" : ""}>
+                        {RESUME_CONDITION_LABELS[condition]}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+              {state.unmetResumeConditions.includes("fullscreen") && (
+                <Button onClick={actions.enterFullscreen} variant="outline" className="w-full">
+                  Enter Fullscreen
+                </Button>
+              )}
+              {state.unmetResumeConditions.includes("acknowledge") && (
+                <Button
+                  onClick={actions.resumeExam}
+                  className="w-full bg-yellow-600 hover:bg-yellow-700"
+                  size="lg"
+                >
+                  I Understand
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Proctor Warning Overlay */}
+      {state.proctorMessage && !isSubmitted && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <Card className="w-full max-w-md mx-4 border-2 border-yellow-500/50 shadow-lg">
+            <CardHeader className="text-center pb-4">
+              <div className="flex justify-center mb-4">
+                <div className="p-4 bg-yellow-500/10 rounded-full">
+                  <MessageSquareWarning className="h-12 w-12 text-yellow-600" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl font-bold text-yellow-600">
+                Message from Your Proctor
+              </CardTitle>
+              <CardDescription className="text-base mt-2">
+                {state.proctorMessage.text}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button
+                onClick={actions.acknowledgeProctorMessage}
+                className="w-full bg-yellow-600 hover:bg-yellow-700"
+                size="lg"
+              >
+                Acknowledge
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Terminated Overlay */}
+      {state.terminated && !isSubmitted && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <Card className="w-full max-w-md mx-4 border-2 border-destructive/50 shadow-lg">
+            <CardHeader className="text-center pb-4">
+              <div className="flex justify-center mb-4">
+                <div className="p-4 bg-destructive/10 rounded-full">
+                  <Ban className="h-12 w-12 text-destructive" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl font-bold text-destructive">
+                Attempt Terminated
+              </CardTitle>
+              <CardDescription className="text-base mt-2">
+                {state.terminated.reason} Your answers so far are being submitted for review.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
       {/* Quiz Content with Blur */}
       <div className={`transition-all duration-300 ${shouldBlur ? "blur-lg pointer-events-none" : ""}`}>
         <div className="max-w-4xl mx-auto p-4">
@@ -170,32 +383,76 @@ const Proctor = ({ children, isSubmitted, currentQuestionIndex, onProctoringRead
                     <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
                     <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
                   </div>
-                  <span className="text-sm font-medium text-muted-foreground">Recording Active</span>
+                  <span className="text-sm font-medium text-muted-foreground">
+                    {state.isRecordingVideo ? `Video Recording (${state.recordedSegments} segments)` : "Recording Active"}
+                  </span>
                 </div>
                 <span className="text-xs text-muted-foreground ml-4">Session: {state.sessionId}</span>
               </div>
-              {state.imageCaptureFailures > 0 && (
-                <span className="text-xs text-yellow-600">⚠️ {state.imageCaptureFailures} capture failures</span>
-              )}
+              <div className="flex items-center gap-4">
+                {state.liveConnection && (
+                  <span className={`text-xs ${state.liveConnection === "connected" ? "text-green-600" : "text-yellow-600"}`}>
+                    ● Proctor {state.liveConnection}
+                  </span>
+                )}
+                {state.audioCalibrating && (
+                  <span className="text-xs text-muted-foreground">🎙️ Calibrating microphone, please stay quiet...</span>
+                )}
+                {state.faceCount === 0 && (
+                  <span className="text-xs text-red-600">⚠️ No face detected</span>
+                )}
+                {state.faceCount !== null && state.faceCount > 1 && (
+                  <span className="text-xs text-red-600">⚠️ {state.faceCount} faces detected</span>
+                )}
+                {state.attention.status === 'looking-away' && (
+                  <span className="text-xs text-yellow-600">
+                    ⚠️ Looking {state.attention.direction} ({Math.round(state.attention.awayForMs / 1000)}s)
+                  </span>
+                )}
+                {state.screenCount !== null && state.screenCount > 1 && (
+                  <span className="text-xs text-red-600">⚠️ {state.screenCount} screens connected</span>
+                )}
+                {state.uploadQueueDepth > 0 && (
+                  <span className="text-xs text-muted-foreground">⬆️ {state.uploadQueueDepth} pending uploads</span>
+                )}
+                {state.imageCaptureFailures > 0 && (
+                  <span className="text-xs text-yellow-600">⚠️ {state.imageCaptureFailures} capture failures</span>
+                )}
+              </div>
             </div>
           )}
 
           {/* Violation Counter */}
           {state.totalViolations > 0 && !isSubmitted && (
             <div className="mb-4">
-              <Alert className={`border-2 ${state.totalViolations >= 3 ? 'border-red-500 bg-red-50' : 'border-yellow-500 bg-yellow-50'}`}>
+              <Alert className={`border-2 ${state.isInvalidated ? 'border-red-500 bg-red-50' : 'border-yellow-500 bg-yellow-50'}`}>
                 <AlertTriangle className={`h-4 w-4 ${getViolationColor()}`} />
                 <AlertDescription className={`${getViolationColor()} font-semibold`}>
-                  ⚠️ Proctoring Violations: {state.totalViolations}/3
-                  {state.totalViolations >= 3 && " - Submission Blocked"}
+                  ⚠️ Violation Score: {formatScore(state.violationScore)}
+                  {state.violationLimit !== null && `/${state.violationLimit}`}
+                  {` (${state.totalViolations} violations`}
+                  {state.severityCounts.critical > 0 && `, ${state.severityCounts.critical} critical`}
+                  {state.severityCounts.high > 0 && `, ${state.severityCounts.high} high`}
+                  {")"}
+                  {state.policyAction === 'invalidate' && " - Invalidated"}
+                  {state.policyAction === 'auto-submit' && " - Auto-Submitted"}
                 </AlertDescription>
               </Alert>
             </div>
           )}
 
-          {children}
+          {/* Questions stay mounted but hidden so answers survive the pause */}
+          <div
+            className={state.isPaused && !isSubmitted ? "invisible" : undefined}
+            aria-hidden={state.isPaused && !isSubmitted}
+          >
+            {children}
+          </div>
         </div>
       </div>
+
+      {/* Proctor Chat */}
+      {state.liveConnection !== null && !isSubmitted && <ProctorChat state={state} actions={actions} />}
     </div>
   );
 };
@@ -0,0 +1,105 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { MessageCircle, Send } from "lucide-react";
+import type { ProctoringActions, ProctoringState } from "@/hooks/useProctoring";
+
+interface ProctorChatProps {
+  state: ProctoringState;
+  actions: ProctoringActions;
+}
+
+const ProctorChat = ({ state, actions }: ProctorChatProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { chatMessages, unreadChatCount, liveConnection } = state;
+  const { markChatRead } = actions;
+
+  useEffect(() => {
+    if (open) {
+      markChatRead();
+      bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [open, chatMessages.length, markChatRead]);
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    actions.sendChatMessage(draft);
+    setDraft("");
+  };
+
+  return (
+    <>
+      {/* Sits above the blocking overlays so the candidate can always reach the proctor */}
+      <Button
+        size="icon"
+        className="fixed bottom-6 right-6 z-[70] h-12 w-12 rounded-full shadow-lg"
+        onClick={() => setOpen(true)}
+      >
+        <MessageCircle className="h-5 w-5" />
+        {unreadChatCount > 0 && (
+          <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-red-500 px-1 text-xs text-white">
+            {unreadChatCount}
+          </span>
+        )}
+      </Button>
+
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="right" className="z-[80] flex flex-col">
+          <SheetHeader>
+            <SheetTitle>Chat with Proctor</SheetTitle>
+            <SheetDescription>
+              {liveConnection === "connected"
+                ? "Messages are recorded with your session."
+                : "Reconnecting... messages will be delivered once the connection is restored."}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="flex-1 space-y-3 overflow-y-auto py-4">
+            {chatMessages.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground">
+                No messages yet. Ask the proctor if you need help.
+              </p>
+            )}
+            {chatMessages.map((message) => (
+              <div
+                key={message.id}
+                className={`flex ${message.from === "candidate" ? "justify-end" : "justify-start"}`}
+              >
+                <div
+                  className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                    message.from === "candidate" ? "bg-primary text-primary-foreground" : "bg-muted"
+                  }`}
+                >
+                  <p className="whitespace-pre-wrap break-words">{message.text}</p>
+                  <p className="mt-1 text-[10px] opacity-70">
+                    {new Date(message.sentAt).toLocaleTimeString()}
+                  </p>
+                </div>
+              </div>
+            ))}
+            <div ref={bottomRef} />
+          </div>
+
+          <form onSubmit={handleSend} className="flex gap-2">
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Type a message..."
+              maxLength={500}
+            />
+            <Button type="submit" size="icon" disabled={!draft.trim()}>
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
+
+export default ProctorChat;
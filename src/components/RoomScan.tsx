@@ -0,0 +1,79 @@
+import { useEffect, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScanEye } from "lucide-react";
+import type { ProctoringActions, ProctoringState } from "@/hooks/useProctoring";
+import { MIN_DISTINCT_FRAMES } from "@/lib/proctoring/roomScan";
+
+interface RoomScanProps {
+  state: ProctoringState;
+  actions: ProctoringActions;
+}
+
+const SCAN_PROMPTS = [
+  "Slowly turn the camera to your left",
+  "Keep turning to show the wall behind you",
+  "Continue to your right",
+  "Finally, tilt down to show your desk and lap",
+];
+
+const RoomScan = ({ state, actions }: RoomScanProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { roomScan } = state;
+  const isRecording = roomScan.status === "recording";
+
+  useEffect(() => {
+    const stream = actions.getMediaStream();
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+    }
+  });
+
+  const prompt = SCAN_PROMPTS[Math.min(Math.floor(roomScan.progress * SCAN_PROMPTS.length), SCAN_PROMPTS.length - 1)];
+
+  return (
+    <Card className="w-full max-w-md mx-4 shadow-lg">
+      <CardHeader className="text-center pb-4">
+        <div className="flex justify-center mb-4">
+          <div className="p-4 bg-primary/10 rounded-full">
+            <ScanEye className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <CardTitle className="text-2xl font-bold">Room Scan</CardTitle>
+        <CardDescription className="text-base mt-2">
+          {isRecording
+            ? prompt
+            : "Before the exam starts, record a short 360° view of your room. Pick up your laptop or webcam and pan slowly around the room when you start."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <video ref={videoRef} autoPlay playsInline muted className="w-full rounded-lg bg-muted aspect-video object-cover" />
+
+        {isRecording && (
+          <div className="space-y-2">
+            <Progress value={roomScan.progress * 100} className="h-2" />
+            <p className="text-xs text-muted-foreground text-center">
+              {roomScan.distinctFrames}/{MIN_DISTINCT_FRAMES} distinct views captured
+            </p>
+          </div>
+        )}
+
+        {roomScan.status === "failed" && roomScan.message && (
+          <Alert variant="destructive">
+            <AlertDescription>{roomScan.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isRecording && (
+          <Button onClick={actions.startRoomScan} className="w-full" size="lg">
+            {roomScan.status === "failed" ? "Scan Again" : "Start Room Scan"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoomScan;
@@ -0,0 +1,54 @@
+import { AlertTriangle, MessageCircle, ListOrdered, Wifi } from "lucide-react";
+import { VIOLATION_LABELS } from "@/lib/proctoring/types";
+import type { MonitorEvent } from "@/lib/proctoring/monitor";
+
+interface SessionTimelineProps {
+  events: MonitorEvent[];
+}
+
+const describeEvent = (event: MonitorEvent) => {
+  switch (event.type) {
+    case 'violation':
+      return event.violation ? VIOLATION_LABELS[event.violation.type] ?? event.violation.type : "Violation";
+    case 'progress':
+      return `Moved to question ${(event.questionIndex ?? 0) + 1}`;
+    case 'chat':
+      return `${event.from === 'proctor' ? "Proctor" : "Candidate"}: ${event.text ?? ""}`;
+    case 'status':
+      return `Connection ${event.status ?? "changed"}`;
+    default:
+      return event.type;
+  }
+};
+
+const EventIcon = ({ type }: { type: MonitorEvent['type'] }) => {
+  if (type === 'violation') return <AlertTriangle className="h-4 w-4 text-red-600" />;
+  if (type === 'chat') return <MessageCircle className="h-4 w-4 text-blue-600" />;
+  if (type === 'status') return <Wifi className="h-4 w-4 text-muted-foreground" />;
+  return <ListOrdered className="h-4 w-4 text-muted-foreground" />;
+};
+
+const SessionTimeline = ({ events }: SessionTimelineProps) => {
+  if (events.length === 0) {
+    return <p className="text-center text-sm text-muted-foreground py-8">No activity recorded yet.</p>;
+  }
+
+  // Newest first so live activity shows up at the top
+  const ordered = [...events].reverse();
+
+  return (
+    <ol className="relative border-l ml-2 space-y-4">
+      {ordered.map((event, index) => (
+        <li key={`${event.sentAt}-${index}`} className="ml-4">
+          <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-background">
+            <EventIcon type={event.type} />
+          </span>
+          <p className="text-sm">{describeEvent(event)}</p>
+          <p className="text-xs text-muted-foreground">{new Date(event.sentAt).toLocaleTimeString()}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default SessionTimeline;
@@ -0,0 +1,73 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Ban, CheckCircle, CloudUpload, ShieldAlert } from "lucide-react";
+import { SUBMISSION_OUTCOME_LABELS, type AttemptSubmission } from "@/lib/proctoring/submission";
+
+interface SubmissionResultProps {
+  submission: AttemptSubmission;
+  pendingUploads: number;
+}
+
+const OUTCOME_ICONS = {
+  completed: CheckCircle,
+  'auto-submitted': ShieldAlert,
+  invalidated: Ban,
+  terminated: Ban,
+};
+
+const SubmissionResult = ({ submission, pendingUploads }: SubmissionResultProps) => {
+  const Icon = OUTCOME_ICONS[submission.outcome];
+  const tone = submission.invalidated
+    ? "text-destructive"
+    : submission.outcome === 'completed'
+      ? "text-green-600"
+      : "text-yellow-600";
+
+  return (
+    <Card className={`mt-6 ${submission.invalidated ? "border-2 border-destructive/50" : ""}`}>
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-2">
+          <Icon className={`h-12 w-12 ${tone}`} />
+        </div>
+        <CardTitle className={`text-2xl font-bold ${tone}`}>
+          {SUBMISSION_OUTCOME_LABELS[submission.outcome]}
+        </CardTitle>
+        {submission.reason && (
+          <CardDescription className="text-base mt-2">{submission.reason}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="text-center space-y-4">
+          {/* Invalidated attempts are graded by the instructor after review */}
+          {submission.invalidated ? (
+            <p className="text-sm text-muted-foreground">
+              Your {submission.answeredCount} of {submission.totalQuestions} answers were sent to your instructor,
+              who will review the attempt before any result is released.
+            </p>
+          ) : (
+            <>
+              <div className="font-bold">{submission.score.toFixed(1)}%</div>
+              <p className="text-sm text-muted-foreground">
+                {submission.answeredCount} of {submission.totalQuestions} questions answered
+              </p>
+            </>
+          )}
+
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <CloudUpload className="h-4 w-4" />
+            {pendingUploads > 0
+              ? `Uploading ${pendingUploads} remaining item${pendingUploads === 1 ? "" : "s"}, please keep this page open`
+              : "Your attempt and proctoring log have been delivered"}
+          </div>
+
+          <Link to="/">
+            <Button>Home</Button>
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SubmissionResult;
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { CameraOff } from "lucide-react";
+import { VIOLATION_LABELS, type ViolationLog } from "@/lib/proctoring/types";
+import {
+  REVIEW_STATUS_LABELS,
+  type ReviewDecision,
+  type ReviewStatus,
+  type SessionSnapshot,
+} from "@/lib/proctoring/review";
+
+interface ViolationReviewItemProps {
+  violation: ViolationLog;
+  snapshots: SessionSnapshot[];
+  decision?: ReviewDecision;
+  onSave: (decision: ReviewDecision) => Promise<void>;
+}
+
+const DECISION_OPTIONS: ReviewStatus[] = ['confirmed', 'dismissed', 'needs-discussion'];
+
+const STATUS_VARIANTS: Record<ReviewStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  confirmed: "destructive",
+  dismissed: "secondary",
+  'needs-discussion': "default",
+};
+
+const ViolationReviewItem = ({ violation, snapshots, decision, onSave }: ViolationReviewItemProps) => {
+  const [status, setStatus] = useState<ReviewStatus>(decision?.status ?? 'pending');
+  const [comment, setComment] = useState(decision?.comment ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const savedStatus = decision?.status ?? 'pending';
+  // Comments are saved trimmed, so surrounding whitespace alone is not an unsaved change
+  const isDirty = status !== savedStatus || comment.trim() !== (decision?.comment ?? "");
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ sequence: violation.sequence, status, comment: comment.trim() });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">
+              #{violation.sequence} {VIOLATION_LABELS[violation.type] ?? violation.type}
+            </CardTitle>
+            <CardDescription>
+              {new Date(violation.timestamp).toLocaleString()}
+              {violation.durationMs !== undefined && ` · lasted ${Math.round(violation.durationMs / 1000)}s`}
+              {violation.questionIndex !== undefined && ` · question ${violation.questionIndex + 1}`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Badge variant="outline" className="capitalize">{violation.severity}</Badge>
+            <Badge variant={STATUS_VARIANTS[savedStatus]}>{REVIEW_STATUS_LABELS[savedStatus]}</Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {snapshots.length > 0 ? (
+          <div className="grid grid-cols-3 gap-2">
+            {snapshots.map((snapshot) => (
+              <figure key={snapshot.timestamp} className="space-y-1">
+                <img src={snapshot.imageData} alt="Candidate snapshot" className="rounded border w-full" />
+                <figcaption className="text-xs text-muted-foreground text-center">
+                  {new Date(snapshot.timestamp).toLocaleTimeString()}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CameraOff className="h-4 w-4" /> No snapshots captured around this event
+          </div>
+        )}
+
+        <RadioGroup value={status} onValueChange={(value) => setStatus(value as ReviewStatus)} className="flex flex-wrap gap-4">
+          {DECISION_OPTIONS.map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem value={option} id={`decision-${violation.sequence}-${option}`} />
+              <Label htmlFor={`decision-${violation.sequence}-${option}`}>{REVIEW_STATUS_LABELS[option]}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Reviewer comment (optional)"
+          rows={2}
+        />
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {decision?.decidedAt &&
+              `Last saved ${new Date(decision.decidedAt).toLocaleString()}${decision.reviewer ? ` by ${decision.reviewer}` : ""}`}
+          </span>
+          <Button size="sm" onClick={handleSave} disabled={status === 'pending' || !isDirty || isSaving}>
+            {isSaving ? "Saving..." : "Save Decision"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ViolationReviewItem;
@@ -0,0 +1,69 @@
+import { useState, useEffect } from "react";
+import type { LiveConnectionStatus } from "@/lib/proctoring/liveChannel";
+import {
+  applyMonitorEvent,
+  createMonitorChannel,
+  fetchMonitoredSessions,
+  type MonitorEvent,
+  type MonitoredSessions,
+} from "@/lib/proctoring/monitor";
+
+export const useExamMonitor = (examId: string | undefined) => {
+  const [sessions, setSessions] = useState<MonitoredSessions>({});
+  const [connection, setConnection] = useState<LiveConnectionStatus>('connecting');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!examId) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+
+    // Events that arrive before the snapshot are held back and replayed onto it
+    let pending: MonitorEvent[] | null = [];
+
+    const replayPending = (initial: MonitoredSessions) => {
+      const buffered = pending ?? [];
+      pending = null;
+      // The snapshot already counts anything it saw, so only newer events are applied
+      setSessions(
+        buffered
+          .filter((event) =>
+            !initial[event.sessionId]
+            || new Date(event.sentAt).getTime() > new Date(initial[event.sessionId].lastSeenAt).getTime())
+          .reduce(applyMonitorEvent, initial),
+      );
+    };
+
+    fetchMonitoredSessions(examId, controller.signal)
+      .then(replayPending)
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching monitored sessions:', err);
+        setError(err instanceof Error ? err.message : "Failed to load sessions");
+        replayPending({});
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    const channel = createMonitorChannel({
+      examId,
+      onEvent: (event) => {
+        if (pending) pending.push(event);
+        else setSessions((prev) => applyMonitorEvent(prev, event));
+      },
+      onStatusChange: setConnection,
+    });
+
+    return () => {
+      controller.abort();
+      channel.close();
+      setSessions({});
+    };
+  }, [examId]);
+
+  return { sessions, connection, isLoading, error };
+};
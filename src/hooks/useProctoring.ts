@@ -1,9 +1,77 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useToast } from "@/hooks/use-toast";
-
-export interface ViolationLog {
-  type: 'tab-switch' | 'fullscreen-exit';
-  timestamp: string;
+import {
+  VIOLATION_LABELS,
+  VIOLATION_SEVERITY,
+  type ActivityEvent,
+  type ChatMessage,
+  type ViolationLog,
+  type ViolationSeverity,
+  type ViolationType,
+} from "@/lib/proctoring/types";
+import {
+  DEFAULT_VIOLATION_POLICY,
+  countBySeverity,
+  evaluatePolicy,
+  getPauseRule,
+  getViolationWeight,
+  isTerminalAction,
+  type PolicyAction,
+  type ViolationPolicy,
+} from "@/lib/proctoring/policy";
+import { countFaces, loadFaceDetector } from "@/lib/proctoring/faceDetection";
+import { getGenesisHash, hashViolation } from "@/lib/proctoring/logChain";
+import { enqueueUpload, startUploadQueue, subscribeToQueueDepth } from "@/lib/proctoring/uploadQueue";
+import { createSegmentRecorder, isRecordingSupported, type SegmentRecorder } from "@/lib/proctoring/recording";
+import { saveSegment, uploadPendingSegments } from "@/lib/proctoring/recordingUpload";
+import { captureFrame, requestMonitorShare, watchScreenCount } from "@/lib/proctoring/screenCapture";
+import {
+  MATCH_THRESHOLD,
+  compareDescriptors,
+  fetchProfilePicture,
+  getFaceDescriptor,
+  loadIdentityModels,
+  isIdentityComplete,
+  loadImage,
+  type IdentityState,
+} from "@/lib/proctoring/identity";
+import { MIN_DISTINCT_FRAMES, recordRoomScan, type RoomScanState } from "@/lib/proctoring/roomScan";
+import { createLiveChannel, type LiveChannel, type LiveConnectionStatus, type ProctorCommand } from "@/lib/proctoring/liveChannel";
+import { loadSystemCheckReport } from "@/lib/proctoring/systemCheck";
+import { createVoiceActivityDetector } from "@/lib/proctoring/voiceActivity";
+import { resolveDetectors, type DetectorContext, type ResolvedDetector } from "@/lib/proctoring/detectors";
+import {
+  closePause,
+  getUnmetConditions,
+  mergePause,
+  type ActivePause,
+  type PausedInterval,
+  type PauseReason,
+  type ResumeCondition,
+} from "@/lib/proctoring/pause";
+import type { AttemptSubmission } from "@/lib/proctoring/submission";
+import {
+  DEFAULT_CAPTURE_SCHEDULE,
+  createCaptureScheduler,
+  type CaptureReason,
+  type CaptureSchedule,
+  type CaptureScheduler,
+} from "@/lib/proctoring/captureScheduler";
+import {
+  DEFAULT_SNAPSHOT_ENCODING,
+  createSnapshotEncoder,
+  getFileExtension,
+  type SnapshotEncoder,
+  type SnapshotEncoding,
+} from "@/lib/proctoring/snapshotEncoder";
+import { loadGazeTracker, trackHeadPose, type AttentionState, type GazeDirection } from "@/lib/proctoring/gazeTracking";
+
+export type { ChatMessage, ViolationLog, ViolationSeverity, ViolationType };
+
+export interface ProctorMessage {
+  id: string;
+  text: string;
+  receivedAt: string;
 }
 
 export interface ProctoringState {
@@ -17,42 +85,161 @@ export interface ProctoringState {
   tabSwitchCount: number;
   fullscreenExitCount: number;
   totalViolations: number;
+  violationScore: number;
+  violationLimit: number | null;
+  policyAction: PolicyAction;
+  isInvalidated: boolean;
+  isPaused: boolean;
+  pause: ActivePause | null;
+  unmetResumeConditions: ResumeCondition[];
+  pausedIntervals: PausedInterval[];
   violationLog: ViolationLog[];
+  severityCounts: Record<ViolationSeverity, number>;
   sessionId: string;
   imageCaptureFailures: number;
+  uploadQueueDepth: number;
+  isRecordingVideo: boolean;
+  screenShareRequired: boolean;
+  screenShareActive: boolean;
+  screenCount: number | null;
+  identityRequired: boolean;
+  identity: IdentityState;
+  roomScanRequired: boolean;
+  liveConnection: LiveConnectionStatus | null;
+  proctorMessage: ProctorMessage | null;
+  terminated: { reason: string } | null;
+  chatMessages: ChatMessage[];
+  unreadChatCount: number;
+  roomScan: RoomScanState;
+  recordedSegments: number;
+  faceCount: number | null;
+  attention: AttentionState;
+  audioCalibrating: boolean;
+  noiseFloor: number | null;
 }
 
 export interface ProctoringActions {
   startMedia: () => Promise<void>;
   enterFullscreen: () => Promise<void>;
-  exportViolationLog: (score?: number | null) => Promise<void>;
+  exportViolationLog: (score?: number | null, submission?: AttemptSubmission) => Promise<void>;
   cleanupMedia: () => void;
+  resumeExam: () => void;
+  startScreenShare: () => Promise<void>;
+  captureSnapshot: () => string | null;
+  getMediaStream: () => MediaStream | null;
+  verifyIdentity: (facePhoto: string, idCardPhoto: string) => Promise<void>;
+  retryIdentity: () => void;
+  startRoomScan: () => Promise<void>;
+  acknowledgeProctorMessage: () => void;
+  sendChatMessage: (text: string) => void;
+  markChatRead: () => void;
+  recordAnswerChange: (questionIndex: number, answer: string) => void;
 }
 
 export interface ProctoringRefs {
   videoRef: React.RefObject<HTMLVideoElement>;
   audioRef: React.RefObject<HTMLAudioElement>;
   canvasRef: React.RefObject<HTMLCanvasElement>;
+  screenVideoRef: React.RefObject<HTMLVideoElement>;
 }
 
 interface UseProctoringOptions {
   isSubmitted: boolean;
   currentQuestionIndex: number;
+  policy?: ViolationPolicy;
+  recordVideo?: boolean;
+  requireScreenShare?: boolean;
+  requireIdentity?: boolean;
+  requireRoomScan?: boolean;
+  liveProctoring?: boolean;
+  detectors?: ResolvedDetector[];
+  captureSchedule?: CaptureSchedule;
+  snapshotEncoding?: SnapshotEncoding;
 }
 
-export const useProctoring = ({ isSubmitted, currentQuestionIndex }: UseProctoringOptions) => {
+// Consecutive frames a face condition must hold before it is logged
+const FACE_CONFIRM_FRAMES = 2;
+
+// Length of each independently playable WebM segment
+const RECORDING_SEGMENT_MS = 30000;
+
+// Width of the thumbnails streamed to the live proctor
+const THUMBNAIL_WIDTH = 160;
+
+// How often the live feed is compared against the verified face
+const IDENTITY_RECHECK_MS = 60000;
+// Consecutive failed rechecks before a mismatch is logged
+const IDENTITY_CONFIRM_CHECKS = 2;
+
+// Latest snapshots referenced from each violation as evidence
+const EVIDENCE_SNAPSHOTS = 2;
+
+// Head pose is sampled from the live video at this rate
+const GAZE_SAMPLE_MS = 1000;
+// Looking away for less than this is treated as a glance and not logged
+const LOOK_AWAY_MIN_MS = 3000;
+
+const ordinal = (n: number) => {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+};
+
+export const useProctoring = ({
+  isSubmitted,
+  currentQuestionIndex,
+  policy = DEFAULT_VIOLATION_POLICY,
+  recordVideo = false,
+  requireScreenShare = false,
+  requireIdentity = false,
+  requireRoomScan = false,
+  liveProctoring = false,
+  detectors,
+  captureSchedule = DEFAULT_CAPTURE_SCHEDULE,
+  snapshotEncoding = DEFAULT_SNAPSHOT_ENCODING,
+}: UseProctoringOptions) => {
   const [permissionsGranted, setPermissionsGranted] = useState(false);
   const [permissionsLoading, setPermissionsLoading] = useState(true);
   const [showPermissionWarning, setShowPermissionWarning] = useState(false);
   const [permissionViolated, setPermissionViolated] = useState(false);
   const [browserSupported, setBrowserSupported] = useState(true);
-  const [tabSwitchCount, setTabSwitchCount] = useState(0);
-  const [fullscreenExitCount, setFullscreenExitCount] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [violationLog, setViolationLog] = useState<ViolationLog[]>([]);
   const [showFullscreenWarning, setShowFullscreenWarning] = useState(false);
   const [sessionId] = useState(() => `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+  const [startedAt] = useState(() => new Date().toISOString());
   const [imageCaptureFailures, setImageCaptureFailures] = useState(0);
+  const [uploadQueueDepth, setUploadQueueDepth] = useState(0);
+  const [isRecordingVideo, setIsRecordingVideo] = useState(false);
+  const [recordedSegments, setRecordedSegments] = useState(0);
+  const [screenShareActive, setScreenShareActive] = useState(false);
+  const [screenCount, setScreenCount] = useState<number | null>(null);
+  const [roomScan, setRoomScan] = useState<RoomScanState>({
+    status: 'pending',
+    progress: 0,
+    distinctFrames: 0,
+    message: null,
+  });
+  const [identity, setIdentity] = useState<IdentityState>({
+    status: 'pending',
+    distance: null,
+    attempts: 0,
+    message: null,
+  });
+  const [pause, setPause] = useState<ActivePause | null>(null);
+  const [pausedIntervals, setPausedIntervals] = useState<PausedInterval[]>([]);
+  const [liveConnection, setLiveConnection] = useState<LiveConnectionStatus | null>(null);
+  const [proctorMessage, setProctorMessage] = useState<ProctorMessage | null>(null);
+  const [terminated, setTerminated] = useState<{ reason: string } | null>(null);
+  const [reverifyRequested, setReverifyRequested] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [unreadChatCount, setUnreadChatCount] = useState(0);
+  const [systemCheck] = useState(loadSystemCheckReport);
+  const [faceCount, setFaceCount] = useState<number | null>(null);
+  const [faceDetectionAvailable, setFaceDetectionAvailable] = useState(true);
+  const [audioCalibrating, setAudioCalibrating] = useState(false);
+  const [noiseFloor, setNoiseFloor] = useState<number | null>(null);
+  const [attention, setAttention] = useState<AttentionState>({ status: 'unknown', direction: null, awayForMs: 0 });
 
   const { toast } = useToast();
 
@@ -60,21 +247,226 @@ export const useProctoring = ({ isSubmitted, currentQuestionIndex }: UseProctori
   const audioRef = useRef<HTMLAudioElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const captureIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const captureSchedulerRef = useRef<CaptureScheduler | null>(null);
+  const snapshotEncoderRef = useRef<SnapshotEncoder | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const screenVideoRef = useRef<HTMLVideoElement>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const stopScreenWatchRef = useRef<(() => void) | null>(null);
+  const lastScreenCountRef = useRef<number | null>(null);
+  const referenceDescriptorRef = useRef<Float32Array | null>(null);
+  // Panning the camera around the room would otherwise trip the face and gaze checks
+  const roomScanActiveRef = useRef(false);
+  const liveChannelRef = useRef<LiveChannel | null>(null);
+  const thumbnailCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const violationLogRef = useRef<ViolationLog[]>([]);
+  const activityLogRef = useRef<ActivityEvent[]>([]);
+  // Resolves to the hash of the last entry once every pending entry has been hashed
+  const chainHeadRef = useRef<Promise<string | null> | null>(null);
+  const questionIndexRef = useRef(currentQuestionIndex);
+  questionIndexRef.current = currentQuestionIndex;
+  // Read by effect cleanups to tell a submission apart from an ordinary restart
+  const isSubmittedRef = useRef(isSubmitted);
+  isSubmittedRef.current = isSubmitted;
+  const faceStreakRef = useRef({ missing: 0, multiple: 0 });
+  const lastFaceSeenRef = useRef(Date.now());
+  const snapshotCountRef = useRef(0);
+  // Compares what was uploaded with what the old base64 JPEG snapshots would have cost, measured once per frame size
+  const encodingStatsRef = useRef({ snapshots: 0, bytesSent: 0, baselineBytes: 0 });
+  // Attached as evidence to violations, the most recent last
+  const recentSnapshotIdsRef = useRef<string[]>([]);
+  const recorderRef = useRef<SegmentRecorder | null>(null);
+  const lookAwayRef = useRef<{ direction: GazeDirection; startedAt: number } | null>(null);
+
+  // Unscored entries (episode ends, identity retries) stay in the log but aren't counted as violations
+  const countedViolations = violationLog.filter((v) => v.scored !== false);
+  const tabSwitchCount = countedViolations.filter((v) => v.type === 'tab-switch').length;
+  const fullscreenExitCount = countedViolations.filter((v) => v.type === 'fullscreen-exit').length;
+  const totalViolations = countedViolations.length;
+  const evaluation = useMemo(() => evaluatePolicy(policy, violationLog), [policy, violationLog]);
+  const severityCounts = useMemo(() => countBySeverity(violationLog), [violationLog]);
+  const resolvedDetectors = useMemo(() => detectors ?? resolveDetectors(undefined), [detectors]);
+  const isInvalidated = isTerminalAction(evaluation.action);
+  const isPaused = pause !== null;
+  const unmetResumeConditions = useMemo(
+    () => getUnmetConditions(pause, { isFullscreen, faceCount, faceDetectionAvailable }),
+    [pause, isFullscreen, faceCount, faceDetectionAvailable],
+  );
+  const identityRequired = requireIdentity || reverifyRequested;
+  // Holding a photo ID up to the camera would otherwise trip the face and gaze checks
+  const identityPendingRef = useRef(false);
+  identityPendingRef.current = identityRequired && !isIdentityComplete(identity) && !isSubmitted;
+
+  const sealViolation = useCallback((entry: ViolationLog) => {
+    const head = chainHeadRef.current ?? Promise.resolve(null);
+    const questionIndex = questionIndexRef.current;
+
+    // Never rejects: a null head means the next entry starts again from the genesis hash
+    chainHeadRef.current = head.then(async (headHash) => {
+      let sealed: ViolationLog;
+      let nextHead = headHash;
+
+      try {
+        const previousHash = headHash ?? await getGenesisHash(sessionId);
+        const linked = { ...entry, previousHash };
+        sealed = { ...linked, hash: await hashViolation(linked, previousHash) };
+        nextHead = sealed.hash;
+      } catch (error) {
+        // e.g. WebCrypto is missing outside a secure origin; the violation still has to reach the server
+        console.error('Error sealing violation:', error);
+        sealed = { ...entry, unsealed: true };
+      }
+
+      violationLogRef.current = violationLogRef.current.map((v) => (v.sequence === sealed.sequence ? sealed : v));
+      setViolationLog(violationLogRef.current);
+
+      enqueueUpload({
+        kind: 'violation',
+        sessionId,
+        url: "http://localhost:3000/exam/ViolationLogs",
+        body: { sessionId, questionIndex, violation: sealed },
+      }).catch((error) => console.error('Error queueing violation for upload:', error));
+      liveChannelRef.current?.send({ type: 'violation', questionIndex, violation: sealed });
+
+      return nextHead;
+    });
+  }, [sessionId]);
+
+  const pauseExam = useCallback((reason: PauseReason, conditions: ResumeCondition[], trigger?: ViolationType) => {
+    setPause((prev) => mergePause(prev, reason, conditions, trigger));
+    liveChannelRef.current?.send({ type: 'paused', reason, conditions, trigger });
+  }, []);
+
+  const satisfyResumeCondition = useCallback((condition: ResumeCondition) => {
+    setPause((prev) =>
+      prev && prev.conditions.includes(condition) && !prev.satisfied.includes(condition)
+        ? { ...prev, satisfied: [...prev.satisfied, condition] }
+        : prev,
+    );
+  }, []);
+
+  const recordActivity = useCallback((event: Omit<ActivityEvent, 'timestamp'>) => {
+    const entry: ActivityEvent = { ...event, timestamp: new Date().toISOString() };
+    activityLogRef.current = [...activityLogRef.current, entry];
+
+    enqueueUpload({
+      kind: 'activity',
+      sessionId,
+      url: "http://localhost:3000/exam/ActivityLogs",
+      body: { sessionId, activity: entry },
+    }).catch((error) => console.error('Error queueing activity for upload:', error));
+  }, [sessionId]);
+
+  const recordAnswerChange = useCallback((questionIndex: number, answer: string) => {
+    recordActivity({ type: 'answer-change', questionIndex, answer });
+  }, [recordActivity]);
+
+  const recordViolation = useCallback((
+    type: ViolationType,
+    details: Partial<Omit<ViolationLog, 'type' | 'sequence' | 'previousHash' | 'hash'>> = {},
+  ) => {
+    const previousLog = violationLogRef.current;
+    const entry: ViolationLog = {
+      type,
+      severity: VIOLATION_SEVERITY[type],
+      timestamp: new Date().toISOString(),
+      questionIndex: questionIndexRef.current,
+      evidence: [...recentSnapshotIdsRef.current],
+      ...details,
+      sequence: previousLog.length,
+    };
+    const nextLog = [...previousLog, entry];
+    violationLogRef.current = nextLog;
+    setViolationLog(nextLog);
+    sealViolation(entry);
+    // More snapshots right after the violation, while the evidence is still in frame
+    captureSchedulerRef.current?.burst(type);
+
+    const pauseRule = entry.scored === false ? undefined : getPauseRule(policy, type);
+    if (pauseRule) pauseExam('policy', pauseRule.resumeConditions, type);
+
+    const before = evaluatePolicy(policy, previousLog);
+    const after = evaluatePolicy(policy, nextLog);
+
+    // Still inside the grace period for this violation type
+    if (after.score === before.score) return;
+
+    const crossed = policy.thresholds.filter((t) => before.score < t.score && after.score >= t.score);
+    const terminal = crossed.find((t) => isTerminalAction(t.action));
+
+    if (terminal) {
+      toast({
+        title: terminal.action === 'auto-submit' ? "⚠️ Exam Auto-Submitted" : "⚠️ Exam Invalidated",
+        description: terminal.action === 'auto-submit'
+          ? "Your answers are being submitted due to multiple violations"
+          : "Quiz submission blocked due to multiple violations",
+        variant: "destructive",
+      });
+      return;
+    }
 
-  const totalViolations = tabSwitchCount + fullscreenExitCount;
+    const pauseThreshold = crossed.find((t) => t.action === 'pause');
+    if (pauseThreshold) {
+      pauseExam('policy', pauseThreshold.resumeConditions, type);
+    }
+
+    const typeCount = nextLog.filter((v) => v.type === type && v.scored !== false).length;
+    const weight = getViolationWeight(policy, entry);
+    const lastChance = after.remaining !== null && after.remaining <= weight;
+    const consequence = policy.thresholds.find((t) => isTerminalAction(t.action))?.action === 'auto-submit'
+      ? "auto-submit"
+      : "invalidate";
+
+    toast({
+      title: "⚠️ Warning",
+      description: `${VIOLATION_LABELS[type]} - ${ordinal(typeCount)} violation${lastChance ? `. One more will ${consequence} your exam` : ""}`,
+      variant: "destructive",
+    });
+  }, [policy, sealViolation, pauseExam, toast]);
+
+  // Long-lived listeners report through this so a new policy doesn't restart them
+  const recordViolationRef = useRef(recordViolation);
+  recordViolationRef.current = recordViolation;
+
+  // The candidate can only acknowledge; the pause lifts once every other condition is met too
+  const resumeExam = useCallback(() => {
+    satisfyResumeCondition('acknowledge');
+  }, [satisfyResumeCondition]);
+
+  // Record the paused interval as soon as the last condition is satisfied, or when submitting ends the pause
+  useEffect(() => {
+    if (!pause || (unmetResumeConditions.length > 0 && !isSubmitted)) return;
+
+    const interval = closePause(pause);
+    setPause(null);
+    setPausedIntervals((prev) => [...prev, interval]);
+
+    enqueueUpload({
+      kind: 'pause',
+      sessionId,
+      url: "http://localhost:3000/exam/PauseLogs",
+      body: { sessionId, interval },
+    }).catch((error) => console.error('Error queueing paused interval:', error));
+    liveChannelRef.current?.send({ type: 'resumed', interval });
+  }, [pause, unmetResumeConditions, isSubmitted, sessionId]);
 
   const cleanupMedia = useCallback(() => {
     if (intervalRef.current) clearInterval(intervalRef.current);
-    if (captureIntervalRef.current) clearInterval(captureIntervalRef.current);
+    captureSchedulerRef.current?.stop();
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((t) => t.stop());
       streamRef.current = null;
     }
+    if (screenStreamRef.current) {
+      screenStreamRef.current.getTracks().forEach((t) => t.stop());
+      screenStreamRef.current = null;
+    }
+    stopScreenWatchRef.current?.();
+    stopScreenWatchRef.current = null;
   }, []);
 
-  const captureImage = useCallback((): string | null => {
+  // Draws the current camera frame onto the shared canvas that face detection reads from
+  const drawVideoFrame = useCallback((): HTMLCanvasElement | null => {
     try {
       if (!videoRef.current || !canvasRef.current) return null;
 
@@ -93,65 +485,144 @@ export const useProctoring = ({ isSubmitted, currentQuestionIndex }: UseProctori
       canvas.height = video.videoHeight || 480;
       context.drawImage(video, 0, 0, canvas.width, canvas.height);
 
-      return canvas.toDataURL('image/jpeg', 0.7);
+      return canvas;
     } catch (error) {
       console.error('Error capturing image:', error);
       return null;
     }
   }, []);
 
-  const sendImageToBackend = useCallback(async (imageData: string, retryCount = 0) => {
+  const captureImage = useCallback((): string | null => {
+    const canvas = drawVideoFrame();
+    return canvas ? canvas.toDataURL('image/jpeg', 0.7) : null;
+  }, [drawVideoFrame]);
+
+  const analyzeFaces = useCallback(async () => {
+    if (!canvasRef.current || roomScanActiveRef.current || identityPendingRef.current) return;
+
     try {
-      const payload = {
-        sessionId,
-        timestamp: new Date().toISOString(),
-        questionIndex: currentQuestionIndex,
-        imageData,
-      };
+      const count = await countFaces(canvasRef.current);
+      setFaceCount(count);
+      if (count > 0) lastFaceSeenRef.current = Date.now();
+
+      const streak = faceStreakRef.current;
+      streak.missing = count === 0 ? streak.missing + 1 : 0;
+      streak.multiple = count > 1 ? streak.multiple + 1 : 0;
+
+      // Logged once per episode, as soon as the condition is confirmed
+      if (streak.missing === FACE_CONFIRM_FRAMES) recordViolation('no-face');
+      if (streak.multiple === FACE_CONFIRM_FRAMES) recordViolation('multiple-faces');
+    } catch (error) {
+      console.error('Error running face detection:', error);
+    }
+  }, [recordViolation]);
+
+  // Resolves to the number of bytes queued, or null if the snapshot couldn't be encoded
+  const sendSnapshot = useCallback(async (
+    frame: HTMLCanvasElement,
+    reason: CaptureReason = 'scheduled',
+    trigger?: ViolationType,
+  ): Promise<number | null> => {
+    const encoder = snapshotEncoderRef.current;
+    if (!encoder) return null;
+
+    try {
+      const snapshotId = `${sessionId}-snapshot-${snapshotCountRef.current++}`;
+      const timestamp = new Date().toISOString();
+      const questionIndex = questionIndexRef.current;
+      recentSnapshotIdsRef.current = [...recentSnapshotIdsRef.current, snapshotId].slice(-EVIDENCE_SNAPSHOTS);
+
+      // Both bitmaps are taken before either encode is awaited, so the two frames line up
+      const screenVideo = screenStreamRef.current ? screenVideoRef.current : null;
+      const [camera, screen] = await Promise.all([
+        encoder.encode(frame, 'camera'),
+        screenVideo?.readyState === 4
+          ? encoder.encode(screenVideo, 'screen').catch((error) => {
+              console.error('Error capturing screen:', error);
+              return null;
+            })
+          : null,
+      ]);
+
+      const bytesSent = camera.blob.size + (screen?.blob.size ?? 0);
+      const baselineBytes = camera.baselineBytes + (screen?.baselineBytes ?? 0);
+      const stats = encodingStatsRef.current;
+      stats.snapshots++;
+      stats.bytesSent += bytesSent;
+      stats.baselineBytes += baselineBytes;
 
       console.log('📸 Image captured for proctoring:', {
-        sessionId: payload.sessionId,
-        timestamp: payload.timestamp,
-        questionIndex: payload.questionIndex,
-        imageSize: `${(imageData.length / 1024).toFixed(2)} KB`,
+        sessionId,
+        timestamp,
+        questionIndex,
+        imageSize: `${(bytesSent / 1024).toFixed(2)} KB`,
+        saved: `${((baselineBytes - bytesSent) / 1024).toFixed(2)} KB`,
       });
 
-      const token = localStorage.getItem("token");
-      const response = await fetch("http://localhost:3000/exam/DetectLogs", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token && { Authorization: `Bearer ${token}` }),
+      // Queued in IndexedDB so frames survive outages and reloads
+      await enqueueUpload({
+        kind: 'snapshot',
+        sessionId,
+        url: "http://localhost:3000/exam/DetectLogs",
+        format: 'multipart',
+        body: {
+          snapshotId,
+          sessionId,
+          timestamp,
+          questionIndex,
+          reason,
+          ...(trigger && { trigger }),
+          width: camera.width,
+          height: camera.height,
+          baselineBytes,
+          image: new File([camera.blob], `${snapshotId}.${getFileExtension(camera.blob)}`, { type: camera.blob.type }),
+          ...(screen && {
+            screenImage: new File([screen.blob], `${snapshotId}-screen.${getFileExtension(screen.blob)}`, {
+              type: screen.blob.type,
+            }),
+          }),
         },
-        body: JSON.stringify(payload),
       });
-
-      if (!response.ok) {
-        throw new Error(`Backend error: ${response.status}`);
-      }
-
-      setImageCaptureFailures(0);
+      return bytesSent;
     } catch (error) {
-      console.error('Error sending image to backend:', error);
+      console.error('Error queueing image for upload:', error);
       setImageCaptureFailures((prev) => prev + 1);
-
-      if (retryCount < 2) {
-        setTimeout(() => sendImageToBackend(imageData, retryCount + 1), 2000);
-      }
+      return null;
     }
-  }, [sessionId, currentQuestionIndex]);
+  }, [sessionId]);
 
-  const exportViolationLog = useCallback(async (score?: number | null) => {
+  const exportViolationLog = useCallback(async (score?: number | null, submission?: AttemptSubmission) => {
     try {
+      const chainHead = (await chainHeadRef.current) ?? await getGenesisHash(sessionId).catch(() => null);
+      const sealedLog = violationLogRef.current;
+
       const exportData = {
         sessionId,
         timestamp: new Date().toISOString(),
-        totalViolations: tabSwitchCount + fullscreenExitCount,
+        totalViolations,
         tabSwitchCount,
         fullscreenExitCount,
-        violationLog,
+        violationScore: evaluation.score,
+        severityCounts: countBySeverity(sealedLog),
+        policy: policy.name,
+        policyAction: evaluation.action,
+        startedAt,
+        violationLog: sealedLog,
+        activityLog: activityLogRef.current,
+        pausedIntervals,
+        captureStats: captureSchedulerRef.current?.getStats() ?? null,
+        encodingStats: {
+          ...encodingStatsRef.current,
+          bytesSaved: encodingStatsRef.current.baselineBytes - encodingStatsRef.current.bytesSent,
+        },
+        chainLength: sealedLog.length,
+        chainHead,
         permissionViolated,
-        quizCompleted: isSubmitted,
+        systemCheck,
+        chatLog: chatMessages,
+        quizCompleted: isSubmitted || !!submission,
+        outcome: submission?.outcome ?? null,
+        invalidated: submission?.invalidated ?? false,
         score: score || null,
       };
 
@@ -159,13 +630,23 @@ export const useProctoring = ({ isSubmitted, currentQuestionIndex }: UseProctori
 
       localStorage.setItem(`violation-log-${sessionId}`, JSON.stringify(exportData));
 
+      // The complete log goes to the server with the submission so reviewers see the whole attempt
+      if (submission) {
+        await enqueueUpload({
+          kind: 'session-log',
+          sessionId,
+          url: "http://localhost:3000/exam/SessionLogs",
+          body: exportData,
+        });
+      }
+
       toast({
         description: "✅ Proctoring data saved successfully",
       });
     } catch (error) {
       console.error('Error exporting violation log:', error);
     }
-  }, [sessionId, tabSwitchCount, fullscreenExitCount, violationLog, permissionViolated, isSubmitted, toast]);
+  }, [sessionId, startedAt, pausedIntervals, totalViolations, tabSwitchCount, fullscreenExitCount, evaluation, policy, permissionViolated, systemCheck, chatMessages, isSubmitted, toast]);
 
   const startMedia = useCallback(async () => {
     try {
@@ -245,49 +726,359 @@ export const useProctoring = ({ isSubmitted, currentQuestionIndex }: UseProctori
     }
   }, []);
 
-  // Tab switching detection
+  const startScreenShare = useCallback(async () => {
+    try {
+      const stream = await requestMonitorShare();
+
+      screenStreamRef.current?.getTracks().forEach((t) => t.stop());
+      screenStreamRef.current = stream;
+      if (screenVideoRef.current) screenVideoRef.current.srcObject = stream;
+      setScreenShareActive(true);
+
+      // Called here because the permission prompt needs the click that started sharing
+      if (!stopScreenWatchRef.current) {
+        stopScreenWatchRef.current = await watchScreenCount(setScreenCount);
+      }
+    } catch (error) {
+      console.error("Error starting screen share:", error);
+      toast({
+        title: "Screen Sharing Required",
+        description: error instanceof DOMException
+          ? "Screen sharing was cancelled. Please share your entire screen to continue."
+          : error.message,
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  // Screen share must stay on for the whole attempt
   useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.hidden && !isSubmitted && permissionsGranted) {
-        setTabSwitchCount((prev) => {
-          const newCount = prev + 1;
-          const currentTotalViolations = newCount + fullscreenExitCount;
-
-          setViolationLog((logs) => [...logs, {
-            type: 'tab-switch',
-            timestamp: new Date().toISOString()
-          }]);
-
-          if (newCount === 1) {
-            toast({
-              title: "⚠️ Warning",
-              description: "Tab switching detected - 1st violation",
-              variant: "destructive",
-            });
-          } else if (newCount === 2) {
-            toast({
-              title: "⚠️ Warning",
-              description: "Tab switching detected - 2nd violation. One more will invalidate your exam",
-              variant: "destructive",
-            });
-          } else if (currentTotalViolations >= 3) {
-            toast({
-              title: "⚠️ Exam Invalidated",
-              description: "Quiz submission blocked due to multiple violations",
-              variant: "destructive",
-            });
-          }
-
-          return newCount;
+    const track = screenStreamRef.current?.getVideoTracks()[0];
+    if (!screenShareActive || !track) return;
+
+    const handleEnded = () => {
+      setScreenShareActive(false);
+      screenStreamRef.current = null;
+      if (!isSubmitted) recordViolation('screen-share-stopped');
+    };
+
+    track.addEventListener('ended', handleEnded);
+    return () => track.removeEventListener('ended', handleEnded);
+  }, [screenShareActive, isSubmitted, recordViolation]);
+
+  // Multi-monitor detection
+  useEffect(() => {
+    // Only logged when the count changes, not on every policy update
+    if (screenCount === lastScreenCountRef.current) return;
+    lastScreenCountRef.current = screenCount;
+
+    if (screenCount !== null && screenCount > 1 && !isSubmitted) {
+      recordViolation('multiple-screens');
+      toast({
+        title: "⚠️ Multiple Screens Detected",
+        description: "Please disconnect additional monitors for the rest of the exam.",
+        variant: "destructive",
+      });
+    }
+  }, [screenCount, isSubmitted, recordViolation, toast]);
+
+  // Durable upload queue for snapshots and violation events
+  useEffect(() => {
+    const stopQueue = startUploadQueue();
+    const unsubscribe = subscribeToQueueDepth(setUploadQueueDepth);
+
+    return () => {
+      unsubscribe();
+      stopQueue();
+    };
+  }, []);
+
+  const verifyIdentity = useCallback(async (facePhoto: string, idCardPhoto: string) => {
+    setIdentity((prev) => ({ ...prev, status: 'verifying', message: null }));
+
+    try {
+      const faceDescriptor = await getFaceDescriptor(await loadImage(facePhoto));
+      if (!faceDescriptor) {
+        setIdentity((prev) => ({
+          ...prev,
+          status: 'pending',
+          message: "We couldn't find exactly one face in your photo. Please retake it.",
+        }));
+        return;
+      }
+
+      const idCardDescriptor = await getFaceDescriptor(await loadImage(idCardPhoto));
+      const idCardDistance = idCardDescriptor ? compareDescriptors(faceDescriptor, idCardDescriptor) : null;
+
+      let distance: number | null = null;
+      const profilePicture = await fetchProfilePicture().catch(() => null);
+      if (profilePicture) {
+        const profileDescriptor = await getFaceDescriptor(await loadImage(profilePicture)).catch(() => null);
+        if (profileDescriptor) distance = compareDescriptors(faceDescriptor, profileDescriptor);
+      }
+
+      const status = distance === null ? 'unverifiable' : distance <= MATCH_THRESHOLD ? 'verified' : 'mismatch';
+
+      // Rechecks during the exam compare against whoever was photographed here
+      referenceDescriptorRef.current = faceDescriptor;
+
+      enqueueUpload({
+        kind: 'identity',
+        sessionId,
+        url: "http://localhost:3000/exam/Identity",
+        body: {
+          sessionId,
+          timestamp: new Date().toISOString(),
+          facePhoto,
+          idCardPhoto,
+          status,
+          distance,
+          idCardDistance,
+        },
+      }).catch((error) => console.error('Error queueing identity photos:', error));
+
+      if (status === 'mismatch') {
+        // Retries are part of the identity step; failed attempts are left to manual review
+        recordViolation('identity-mismatch', {
+          scored: false,
+          metadata: { stage: 'initial', distance: Number(distance.toFixed(3)) },
+        });
+      }
+
+      setIdentity((prev) => ({
+        status,
+        distance,
+        attempts: prev.attempts + 1,
+        message: status === 'mismatch'
+          ? "Your face doesn't match your profile picture."
+          : status === 'unverifiable'
+            ? "No usable profile picture was found. Your photos will be reviewed manually."
+            : null,
+      }));
+    } catch (error) {
+      console.error('Error verifying identity:', error);
+      setIdentity((prev) => ({ ...prev, status: 'pending', message: "Identity verification failed. Please try again." }));
+    }
+  }, [sessionId, recordViolation]);
+
+  const retryIdentity = useCallback(() => {
+    setIdentity((prev) => ({ ...prev, status: 'pending', message: null }));
+  }, []);
+
+  const startRoomScan = useCallback(async () => {
+    if (!streamRef.current || !videoRef.current) return;
+
+    setRoomScan({ status: 'recording', progress: 0, distinctFrames: 0, message: null });
+    roomScanActiveRef.current = true;
+
+    try {
+      const result = await recordRoomScan(streamRef.current, videoRef.current, (progress, distinctFrames) => {
+        setRoomScan((prev) => ({ ...prev, progress, distinctFrames }));
+      });
+
+      if (result.distinctFrames < MIN_DISTINCT_FRAMES) {
+        setRoomScan({
+          status: 'failed',
+          progress: 1,
+          distinctFrames: result.distinctFrames,
+          message: "We couldn't see enough of the room. Turn the camera slowly so every wall and your desk are visible.",
         });
+        return;
       }
+
+      await saveSegment(sessionId, {
+        segmentIndex: 0,
+        questionIndex: 0,
+        startedAt: result.startedAt,
+        durationMs: result.durationMs,
+        mimeType: result.mimeType,
+        blob: result.blob,
+      }, 'room-scan');
+
+      setRoomScan({ status: 'passed', progress: 1, distinctFrames: result.distinctFrames, message: null });
+    } catch (error) {
+      console.error('Error recording room scan:', error);
+      setRoomScan({ status: 'failed', progress: 0, distinctFrames: 0, message: error.message });
+    } finally {
+      roomScanActiveRef.current = false;
+    }
+  }, [sessionId]);
+
+  // Preload the recognition model while the candidate reads the instructions
+  useEffect(() => {
+    if (!identityRequired || !permissionsGranted) return;
+    loadIdentityModels().catch((error) => console.warn("Identity verification unavailable:", error));
+  }, [identityRequired, permissionsGranted]);
+
+  // Periodic re-verification against the face captured at the start
+  useEffect(() => {
+    if (!identityRequired || !permissionsGranted || isSubmitted) return;
+
+    let misses = 0;
+    let busy = false;
+
+    const recheck = async () => {
+      const reference = referenceDescriptorRef.current;
+      if (busy || !reference || !canvasRef.current) return;
+      busy = true;
+
+      try {
+        // The canvas holds the most recent snapshot from the capture loop
+        const descriptor = await getFaceDescriptor(canvasRef.current);
+        // Absent faces are reported by face detection, not here
+        if (!descriptor) return;
+
+        const distance = compareDescriptors(reference, descriptor);
+        misses = distance > MATCH_THRESHOLD ? misses + 1 : 0;
+
+        if (misses === IDENTITY_CONFIRM_CHECKS) {
+          recordViolation('identity-mismatch', {
+            metadata: { stage: 'recheck', distance: Number(distance.toFixed(3)) },
+          });
+        }
+      } catch (error) {
+        console.error('Error re-verifying identity:', error);
+      } finally {
+        busy = false;
+      }
+    };
+
+    const interval = setInterval(recheck, IDENTITY_RECHECK_MS);
+    return () => clearInterval(interval);
+  }, [identityRequired, permissionsGranted, isSubmitted, recordViolation]);
+
+  const handleProctorCommand = useCallback((command: ProctorCommand) => {
+    switch (command.type) {
+      case 'warning':
+        setProctorMessage({
+          id: command.id ?? `${Date.now()}`,
+          text: command.message,
+          receivedAt: new Date().toISOString(),
+        });
+        break;
+      case 'pause':
+        pauseExam('proctor', ['proctor-approval']);
+        break;
+      case 'resume':
+        // The proctor's approval overrides whatever else the pause was waiting for
+        setPause((prev) => prev && { ...prev, satisfied: prev.conditions });
+        break;
+      case 'reverify':
+        setReverifyRequested(true);
+        setIdentity({
+          status: 'pending',
+          distance: null,
+          attempts: 0,
+          message: "Your proctor has asked you to verify your identity again.",
+        });
+        break;
+      case 'terminate':
+        setTerminated({ reason: command.reason ?? "Your attempt was ended by the proctor." });
+        break;
+    }
+  }, [pauseExam]);
+
+  const acknowledgeProctorMessage = useCallback(() => {
+    if (proctorMessage) {
+      liveChannelRef.current?.send({ type: 'ack', messageId: proctorMessage.id });
+    }
+    setProctorMessage(null);
+  }, [proctorMessage]);
+
+  const logChatMessage = useCallback((message: ChatMessage) => {
+    setChatMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+
+    enqueueUpload({
+      kind: 'chat',
+      sessionId,
+      url: "http://localhost:3000/exam/Chat",
+      body: { sessionId, message },
+    }).catch((error) => console.error('Error queueing chat message:', error));
+  }, [sessionId]);
+
+  const handleLiveMessage = useCallback((message: Record<string, unknown>) => {
+    if (message.type !== 'chat' || typeof message.text !== 'string') return;
+
+    logChatMessage({
+      id: typeof message.id === 'string' ? message.id : `${Date.now()}`,
+      from: 'proctor',
+      text: message.text,
+      sentAt: typeof message.sentAt === 'string' ? message.sentAt : new Date().toISOString(),
+    });
+    setUnreadChatCount((prev) => prev + 1);
+  }, [logChatMessage]);
+
+  const sendChatMessage = useCallback((text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    const message: ChatMessage = {
+      id: `${sessionId}-${Date.now()}`,
+      from: 'candidate',
+      text: trimmed,
+      sentAt: new Date().toISOString(),
+      questionIndex: questionIndexRef.current,
     };
 
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [isSubmitted, permissionsGranted, fullscreenExitCount, toast]);
+    logChatMessage(message);
+    liveChannelRef.current?.send({ type: 'chat', ...message });
+  }, [sessionId, logChatMessage]);
+
+  const markChatRead = useCallback(() => {
+    setUnreadChatCount(0);
+  }, []);
+
+  const streamThumbnail = useCallback(() => {
+    if (!liveChannelRef.current || !videoRef.current) return;
+
+    if (!thumbnailCanvasRef.current) thumbnailCanvasRef.current = document.createElement('canvas');
+    const thumbnail = captureFrame(videoRef.current, thumbnailCanvasRef.current, THUMBNAIL_WIDTH);
+    if (thumbnail) {
+      liveChannelRef.current.send({ type: 'thumbnail', questionIndex: questionIndexRef.current, imageData: thumbnail });
+    }
+  }, []);
 
-  // Fullscreen enforcement
+  // Live proctor channel
+  useEffect(() => {
+    // Deliberately not gated on permissions, so a candidate whose camera fails can still reach the proctor
+    if (!liveProctoring || isSubmitted) return;
+
+    const channel = createLiveChannel({
+      sessionId,
+      onCommand: handleProctorCommand,
+      onStatusChange: setLiveConnection,
+      onMessage: handleLiveMessage,
+    });
+    liveChannelRef.current = channel;
+
+    return () => {
+      channel.close();
+      liveChannelRef.current = null;
+      setLiveConnection(null);
+    };
+  }, [liveProctoring, isSubmitted, sessionId, handleProctorCommand, handleLiveMessage]);
+
+  useEffect(() => {
+    liveChannelRef.current?.send({ type: 'progress', questionIndex: currentQuestionIndex });
+  }, [currentQuestionIndex, liveConnection]);
+
+  useEffect(() => {
+    if (!isSubmitted) recordActivity({ type: 'navigation', questionIndex: currentQuestionIndex });
+  }, [currentQuestionIndex, isSubmitted, recordActivity]);
+
+  // Attach the pre-exam system check to this session
+  useEffect(() => {
+    if (!systemCheck) return;
+
+    enqueueUpload({
+      kind: 'system-check',
+      sessionId,
+      url: "http://localhost:3000/exam/SystemCheck",
+      body: { sessionId, report: systemCheck },
+    }).catch((error) => console.error('Error queueing system check report:', error));
+  }, [sessionId, systemCheck]);
+
+  // Fullscreen enforcement; exits themselves are logged by the fullscreen-exit detector
   useEffect(() => {
     const handleFullscreenChange = () => {
       const isCurrentlyFullscreen = document.fullscreenElement !== null;
@@ -295,38 +1086,6 @@ export const useProctoring = ({ isSubmitted, currentQuestionIndex }: UseProctori
 
       if (!isCurrentlyFullscreen && !isSubmitted && permissionsGranted) {
         setShowFullscreenWarning(true);
-
-        setFullscreenExitCount((prev) => {
-          const newCount = prev + 1;
-          const currentTotalViolations = tabSwitchCount + newCount;
-
-          setViolationLog((logs) => [...logs, {
-            type: 'fullscreen-exit',
-            timestamp: new Date().toISOString()
-          }]);
-
-          if (newCount === 1) {
-            toast({
-              title: "⚠️ Warning",
-              description: "Fullscreen mode exited - 1st violation",
-              variant: "destructive",
-            });
-          } else if (newCount === 2) {
-            toast({
-              title: "⚠️ Warning",
-              description: "Fullscreen mode exited - 2nd violation. One more will invalidate your exam",
-              variant: "destructive",
-            });
-          } else if (currentTotalViolations >= 3) {
-            toast({
-              title: "⚠️ Exam Invalidated",
-              description: "Quiz submission blocked due to multiple violations",
-              variant: "destructive",
-            });
-          }
-
-          return newCount;
-        });
       }
     };
 
@@ -336,88 +1095,248 @@ export const useProctoring = ({ isSubmitted, currentQuestionIndex }: UseProctori
 
     document.addEventListener('fullscreenchange', handleFullscreenChange);
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
-  }, [permissionsGranted, isSubmitted, tabSwitchCount, enterFullscreen, toast]);
+  }, [permissionsGranted, isSubmitted, enterFullscreen]);
 
-  // Copy/Paste prevention
+  // Pluggable checks selected by the exam config, see lib/proctoring/detectors
   useEffect(() => {
-    const handleCopy = (e: ClipboardEvent) => {
-      e.preventDefault();
-      toast({
-        description: "ℹ️ Copy/paste is disabled during the exam",
-      });
+    if (isSubmitted) return;
+
+    // The screen share picker takes focus while it is open
+    const examRunning = permissionsGranted && !(requireScreenShare && !screenShareActive);
+
+    const context: DetectorContext = {
+      sessionId,
+      getStream: () => streamRef.current,
+      getVideo: () => videoRef.current,
+      getLastFaceSeenAt: () => lastFaceSeenRef.current,
+      report: (type, details) => recordViolationRef.current(type, details),
+      notify: (message) => toast({ description: message }),
     };
 
-    const handlePaste = (e: ClipboardEvent) => {
-      e.preventDefault();
-      toast({
-        description: "ℹ️ Copy/paste is disabled during the exam",
+    const stops = resolvedDetectors
+      .filter((detector) => examRunning || !detector.waitForExamStart)
+      .map((detector) => {
+        try {
+          return detector.start(context);
+        } catch (error) {
+          console.error(`Error starting detector "${detector.id}":`, error);
+          return () => {};
+        }
       });
+
+    return () => stops.forEach((stop) => stop());
+  }, [isSubmitted, permissionsGranted, requireScreenShare, screenShareActive, resolvedDetectors, sessionId, toast]);
+
+  // Head-pose tracking on the live video feed
+  useEffect(() => {
+    if (!permissionsGranted || isSubmitted) return;
+
+    let busy = false;
+
+    const endLookAway = () => {
+      const episode = lookAwayRef.current;
+      lookAwayRef.current = null;
+      if (!episode) return;
+
+      const durationMs = Date.now() - episode.startedAt;
+      if (durationMs >= LOOK_AWAY_MIN_MS) {
+        recordViolation('looking-away', {
+          timestamp: new Date(episode.startedAt).toISOString(),
+          durationMs,
+          metadata: { direction: episode.direction },
+        });
+      }
     };
 
-    const handleCut = (e: ClipboardEvent) => {
-      e.preventDefault();
-      toast({
-        description: "ℹ️ Cut is disabled during the exam",
-      });
+    const sample = async () => {
+      const video = videoRef.current;
+      if (busy || !video || video.readyState !== 4 || roomScanActiveRef.current || identityPendingRef.current) return;
+      busy = true;
+
+      try {
+        const pose = await trackHeadPose(video);
+
+        if (!pose) {
+          endLookAway();
+          setAttention({ status: 'no-face', direction: null, awayForMs: 0 });
+          return;
+        }
+
+        if (pose.direction === 'center') {
+          endLookAway();
+          setAttention({ status: 'focused', direction: 'center', awayForMs: 0 });
+          return;
+        }
+
+        // A change of direction mid-episode still counts as one continuous look away
+        if (!lookAwayRef.current) {
+          lookAwayRef.current = { direction: pose.direction, startedAt: Date.now() };
+        }
+
+        setAttention({
+          status: 'looking-away',
+          direction: pose.direction,
+          awayForMs: Date.now() - lookAwayRef.current.startedAt,
+        });
+      } catch (error) {
+        console.error('Error tracking head pose:', error);
+      } finally {
+        busy = false;
+      }
     };
 
-    const handleContextMenu = (e: MouseEvent) => {
-      e.preventDefault();
-      toast({
-        description: "ℹ️ Right-click is disabled during the exam",
+    loadGazeTracker().catch((error) => {
+      console.warn("Gaze tracking unavailable:", error);
+    });
+
+    const interval = setInterval(sample, GAZE_SAMPLE_MS);
+
+    return () => {
+      clearInterval(interval);
+      // A look-away still open at submit is dropped rather than logged against a finished attempt
+      if (isSubmittedRef.current) lookAwayRef.current = null;
+      else endLookAway();
+    };
+  }, [permissionsGranted, isSubmitted, recordViolation]);
+
+  // Voice activity and noise detection, calibrated against the room's ambient level
+  useEffect(() => {
+    if (!permissionsGranted || isSubmitted || !streamRef.current) return;
+
+    let detector: ReturnType<typeof createVoiceActivityDetector>;
+    try {
+      detector = createVoiceActivityDetector(streamRef.current, {
+        onEvent: (event) => {
+          recordViolation(event.type, {
+            timestamp: event.timestamp,
+            durationMs: event.durationMs,
+            metadata: { rms: Number(event.rms.toFixed(4)), noiseFloor: Number(event.noiseFloor.toFixed(4)) },
+          });
+        },
+      });
+    } catch (error) {
+      console.warn("Voice activity detection unavailable:", error);
+      return;
+    }
+
+    let cancelled = false;
+    setAudioCalibrating(true);
+
+    detector.calibrate()
+      .then((floor) => {
+        if (cancelled) return;
+        setNoiseFloor(floor);
+        detector.start();
+      })
+      .catch((error) => console.error('Error calibrating microphone:', error))
+      .finally(() => {
+        if (!cancelled) setAudioCalibrating(false);
       });
+
+    return () => {
+      cancelled = true;
+      // Speech still going on at submit would otherwise be logged against a finished attempt
+      detector.stop(isSubmittedRef.current);
     };
+  }, [permissionsGranted, isSubmitted, recordViolation]);
+
+  // Continuous video recording in short segments
+  useEffect(() => {
+    if (!recordVideo || !permissionsGranted || isSubmitted || !streamRef.current) return;
 
-    document.addEventListener('copy', handleCopy);
-    document.addEventListener('paste', handlePaste);
-    document.addEventListener('cut', handleCut);
-    document.addEventListener('contextmenu', handleContextMenu);
+    if (!isRecordingSupported()) {
+      console.warn("Video recording is not supported in this browser");
+      return;
+    }
+
+    const recorder = createSegmentRecorder(streamRef.current, {
+      segmentMs: RECORDING_SEGMENT_MS,
+      getQuestionIndex: () => questionIndexRef.current,
+      onSegment: (segment) => {
+        saveSegment(sessionId, segment)
+          .then(() => setRecordedSegments((prev) => prev + 1))
+          .catch((error) => console.error('Error saving recording segment:', error));
+      },
+    });
+
+    const handleOnline = () => uploadPendingSegments();
+    window.addEventListener('online', handleOnline);
+
+    recorder.start();
+    recorderRef.current = recorder;
+    setIsRecordingVideo(true);
+    // Finish anything left over from before a reload
+    uploadPendingSegments();
 
     return () => {
-      document.removeEventListener('copy', handleCopy);
-      document.removeEventListener('paste', handlePaste);
-      document.removeEventListener('cut', handleCut);
-      document.removeEventListener('contextmenu', handleContextMenu);
+      window.removeEventListener('online', handleOnline);
+      recorder.stop();
+      recorderRef.current = null;
+      setIsRecordingVideo(false);
     };
-  }, [toast]);
+  }, [recordVideo, permissionsGranted, isSubmitted, sessionId]);
 
-  // Image capture every 4 seconds
+  // Start a new segment per question so recordings line up with what was on screen
+  useEffect(() => {
+    recorderRef.current?.split();
+  }, [currentQuestionIndex]);
+
+  // Image capture on an adaptive cadence: slower while the frame is still, bursts around violations
   useEffect(() => {
     if (!permissionsGranted || isSubmitted) return;
 
     const video = videoRef.current;
     if (!video) return;
 
-    let hasStartedCapture = false;
-
-    const startImageCapture = () => {
-      if (hasStartedCapture) return;
-      hasStartedCapture = true;
+    loadFaceDetector()
+      .then(() => setFaceDetectionAvailable(true))
+      .catch((error) => {
+        console.warn("Face detection unavailable:", error);
+        setFaceDetectionAvailable(false);
+      });
 
-      console.log("Starting auto-capture interval...");
+    const encoder = createSnapshotEncoder(snapshotEncoding);
+    snapshotEncoderRef.current = encoder;
 
-      captureIntervalRef.current = setInterval(() => {
-        const imageData = captureImage();
-        if (imageData) {
-          sendImageToBackend(imageData);
-        } else {
+    const scheduler = createCaptureScheduler({
+      schedule: captureSchedule,
+      video,
+      capture: async (reason, trigger) => {
+        const frame = drawVideoFrame();
+        if (!frame) {
           console.warn("Failed to capture image from video feed");
+          setImageCaptureFailures((prev) => prev + 1);
+          return null;
         }
-      }, 4000);
-    };
+
+        // The encoder copies the frame straight away, before face detection gets to it
+        const sent = sendSnapshot(frame, reason, trigger);
+        analyzeFaces();
+        streamThumbnail();
+        return sent;
+      },
+    });
+    captureSchedulerRef.current = scheduler;
 
     const handleLoadedData = () => {
       console.log(video.videoWidth, video.videoHeight, video.readyState);
-      startImageCapture();
+      console.log("Starting adaptive capture...");
+      scheduler.start();
     };
 
-    video.addEventListener("loadeddata", handleLoadedData);
+    if (video.readyState >= 2) {
+      scheduler.start();
+    } else {
+      video.addEventListener("loadeddata", handleLoadedData);
+    }
 
     return () => {
       video.removeEventListener("loadeddata", handleLoadedData);
-      if (captureIntervalRef.current) clearInterval(captureIntervalRef.current);
+      scheduler.stop();
+      encoder.dispose();
+      snapshotEncoderRef.current = null;
     };
-  }, [permissionsGranted, isSubmitted, captureImage, sendImageToBackend]);
+  }, [permissionsGranted, isSubmitted, captureSchedule, snapshotEncoding, drawVideoFrame, analyzeFaces, sendSnapshot, streamThumbnail]);
 
   const state: ProctoringState = {
     permissionsGranted,
@@ -430,9 +1349,37 @@ export const useProctoring = ({ isSubmitted, currentQuestionIndex }: UseProctori
     tabSwitchCount,
     fullscreenExitCount,
     totalViolations,
+    violationScore: evaluation.score,
+    violationLimit: evaluation.limit,
+    policyAction: evaluation.action,
+    isInvalidated,
+    isPaused,
+    pause,
+    unmetResumeConditions,
+    pausedIntervals,
     violationLog,
+    severityCounts,
     sessionId,
     imageCaptureFailures,
+    uploadQueueDepth,
+    isRecordingVideo,
+    recordedSegments,
+    screenShareRequired: requireScreenShare,
+    screenShareActive,
+    screenCount,
+    identityRequired,
+    identity,
+    roomScanRequired: requireRoomScan,
+    roomScan,
+    liveConnection,
+    proctorMessage,
+    terminated,
+    chatMessages,
+    unreadChatCount,
+    faceCount,
+    attention,
+    audioCalibrating,
+    noiseFloor,
   };
 
   const actions: ProctoringActions = {
@@ -440,12 +1387,24 @@ export const useProctoring = ({ isSubmitted, currentQuestionIndex }: UseProctori
     enterFullscreen,
     exportViolationLog,
     cleanupMedia,
+    resumeExam,
+    startScreenShare,
+    captureSnapshot: captureImage,
+    getMediaStream: () => streamRef.current,
+    verifyIdentity,
+    retryIdentity,
+    startRoomScan,
+    acknowledgeProctorMessage,
+    sendChatMessage,
+    markChatRead,
+    recordAnswerChange,
   };
 
   const refs: ProctoringRefs = {
     videoRef,
     audioRef,
     canvasRef,
+    screenVideoRef,
   };
 
   return { state, actions, refs };
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { getFrameDifference, getFrameSignature } from "./roomScan";
+import type { ViolationType } from "./types";
+
+export const captureScheduleSchema = z.object({
+  // Cadence while the candidate is moving
+  baseIntervalMs: z.number().min(1000).default(4000),
+  // Cadence the scheduler backs off to while the frame stays the same
+  maxIntervalMs: z.number().min(1000).default(15000),
+  // How often the camera is checked for motion, without uploading anything
+  sampleMs: z.number().min(250).default(1000),
+  // Mean per-pixel difference (0-1) between samples that counts as motion
+  motionThreshold: z.number().min(0).max(1).default(0.03),
+  // Extra snapshots taken straight after these violations
+  burstOn: z.array(z.string()).default(['tab-switch', 'no-face', 'multiple-faces', 'looking-away', 'speech-detected', 'loud-noise']),
+  burstCount: z.number().int().min(0).default(3),
+  burstIntervalMs: z.number().min(250).default(1000),
+  // Snapshot upload budget, 0 turns it off
+  budgetKbPerMinute: z.number().min(0).default(1024),
+});
+
+export type CaptureSchedule = z.infer<typeof captureScheduleSchema>;
+
+export const DEFAULT_CAPTURE_SCHEDULE: CaptureSchedule = captureScheduleSchema.parse({});
+
+export const resolveCaptureSchedule = (input: unknown): CaptureSchedule => {
+  if (input == null) return DEFAULT_CAPTURE_SCHEDULE;
+
+  const result = captureScheduleSchema.safeParse(input);
+  if (!result.success) {
+    console.warn('Invalid capture schedule, using default:', result.error.flatten());
+    return DEFAULT_CAPTURE_SCHEDULE;
+  }
+  return {
+    ...result.data,
+    maxIntervalMs: Math.max(result.data.maxIntervalMs, result.data.baseIntervalMs),
+  };
+};
+
+export type CaptureReason = 'scheduled' | 'burst';
+
+export interface CaptureStats {
+  captured: number;
+  burstCaptured: number;
+  skippedForBudget: number;
+  bytesQueued: number;
+  intervalMs: number;
+}
+
+export interface CaptureSchedulerOptions {
+  schedule: CaptureSchedule;
+  video: HTMLVideoElement;
+  // Takes and queues a snapshot, resolving to its size in bytes or null when nothing could be captured
+  capture: (reason: CaptureReason, trigger?: ViolationType) => Promise<number | null>;
+}
+
+const BACKOFF_FACTOR = 1.5;
+const BUDGET_WINDOW_MS = 60000;
+// Routine snapshots stop here so the rest of the budget is left for bursts
+const ROUTINE_BUDGET_SHARE = 0.75;
+
+export const createCaptureScheduler = ({ schedule, video, capture }: CaptureSchedulerOptions) => {
+  const canvas = document.createElement('canvas');
+  const budgetBytes = schedule.budgetKbPerMinute * 1024;
+  const stats: CaptureStats = {
+    captured: 0,
+    burstCaptured: 0,
+    skippedForBudget: 0,
+    bytesQueued: 0,
+    intervalMs: schedule.baseIntervalMs,
+  };
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let previous: Uint8Array | null = null;
+  let movedSinceCapture = true;
+  let lastCaptureAt = 0;
+  let burst: { remaining: number; trigger: ViolationType; lastAt: number } | null = null;
+  let sent: { at: number; bytes: number }[] = [];
+
+  const withinBudget = (reason: CaptureReason, now: number) => {
+    if (!budgetBytes) return true;
+    sent = sent.filter((entry) => now - entry.at < BUDGET_WINDOW_MS);
+    const used = sent.reduce((total, entry) => total + entry.bytes, 0);
+    return used < (reason === 'burst' ? budgetBytes : budgetBytes * ROUTINE_BUDGET_SHARE);
+  };
+
+  const take = async (reason: CaptureReason, now: number, trigger?: ViolationType) => {
+    lastCaptureAt = now;
+    if (!withinBudget(reason, now)) {
+      stats.skippedForBudget++;
+      return;
+    }
+
+    const bytes = await capture(reason, trigger);
+    if (bytes === null) return;
+
+    sent.push({ at: now, bytes });
+    stats.captured++;
+    stats.bytesQueued += bytes;
+    if (reason === 'burst') stats.burstCaptured++;
+  };
+
+  const tick = () => {
+    const now = Date.now();
+
+    const signature = getFrameSignature(video, canvas);
+    if (signature && previous && getFrameDifference(previous, signature) >= schedule.motionThreshold) {
+      movedSinceCapture = true;
+      // Snap straight back to the base cadence instead of waiting out a long interval
+      stats.intervalMs = schedule.baseIntervalMs;
+    }
+    if (signature) previous = signature;
+
+    if (burst) {
+      if (now - burst.lastAt >= schedule.burstIntervalMs) {
+        take('burst', now, burst.trigger);
+        burst.lastAt = now;
+        if (--burst.remaining <= 0) burst = null;
+      }
+      return;
+    }
+
+    if (now - lastCaptureAt < stats.intervalMs) return;
+
+    // Back off a step for every scheduled snapshot that found nothing new
+    stats.intervalMs = movedSinceCapture
+      ? schedule.baseIntervalMs
+      : Math.min(stats.intervalMs * BACKOFF_FACTOR, schedule.maxIntervalMs);
+    movedSinceCapture = false;
+    take('scheduled', now);
+  };
+
+  return {
+    start: () => {
+      if (timer) return;
+      timer = setInterval(tick, Math.min(schedule.sampleMs, schedule.burstIntervalMs));
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+      burst = null;
+    },
+    // The first burst snapshot is taken right away, the rest follow on the burst cadence
+    burst: (trigger: ViolationType) => {
+      if (!timer || !schedule.burstCount || !schedule.burstOn.includes(trigger)) return;
+      const now = Date.now();
+      take('burst', now, trigger);
+      burst = schedule.burstCount > 1 ? { remaining: schedule.burstCount - 1, trigger, lastAt: now } : null;
+    },
+    getStats: (): CaptureStats => ({ ...stats }),
+  };
+};
+
+export type CaptureScheduler = ReturnType<typeof createCaptureScheduler>;
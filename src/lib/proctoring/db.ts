@@ -0,0 +1,40 @@
+import { openDB, type DBSchema, type IDBPDatabase } from "idb";
+import type { QueuedUpload } from "./uploadQueue";
+import type { StoredSegment } from "./recordingUpload";
+
+interface ProctoringDB extends DBSchema {
+  uploads: {
+    key: number;
+    value: QueuedUpload;
+    indexes: { nextAttemptAt: number };
+  };
+  recordings: {
+    key: string;
+    value: StoredSegment;
+  };
+}
+
+const DB_NAME = "protorai-proctoring";
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBPDatabase<ProctoringDB>> | null = null;
+
+export const getProctoringDB = () => {
+  if (!dbPromise) {
+    dbPromise = openDB<ProctoringDB>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion) {
+        if (oldVersion < 1) {
+          const uploads = db.createObjectStore("uploads", { keyPath: "id", autoIncrement: true });
+          uploads.createIndex("nextAttemptAt", "nextAttemptAt");
+        }
+        if (oldVersion < 2) {
+          db.createObjectStore("recordings", { keyPath: "id" });
+        }
+      },
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
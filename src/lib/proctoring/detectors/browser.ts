@@ -0,0 +1,196 @@
+import { z } from "zod";
+import { createKeyboardMonitor } from "../keyboardMonitor";
+import { createDevToolsDetector } from "../devtoolsDetection";
+import type { DetectorContext, DetectorDefinition } from "./types";
+
+type EpisodeType = 'tab-switch' | 'fullscreen-exit';
+
+interface OpenEpisode {
+  startedAt: number;
+  reported: boolean;
+}
+
+// Kept outside the detectors so an episode spanning a restart is logged once, with its full length
+const openEpisodes = new Map<string, OpenEpisode>();
+
+// Leaves the candidate time to accept the exam's fullscreen prompt when a detector starts outside fullscreen
+const STARTUP_GRACE_MS = 10000;
+
+// The violation is logged as soon as an episode starts; its end follows as an unscored entry with the duration
+const createEpisodeTracker = (context: DetectorContext, type: EpisodeType, minDurationMs = 0) => {
+  const key = `${context.sessionId}:${type}`;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const reportStart = () => {
+    timer = null;
+    const episode = openEpisodes.get(key);
+    if (!episode || episode.reported) return;
+
+    episode.reported = true;
+    context.report(type, { timestamp: new Date(episode.startedAt).toISOString() });
+  };
+
+  const schedule = (delayMs: number) => {
+    const episode = openEpisodes.get(key);
+    if (!episode || episode.reported || timer) return;
+
+    const wait = episode.startedAt + delayMs - Date.now();
+    if (wait <= 0) reportStart();
+    else timer = setTimeout(reportStart, wait);
+  };
+
+  const begin = () => {
+    if (!openEpisodes.has(key)) openEpisodes.set(key, { startedAt: Date.now(), reported: false });
+    schedule(minDurationMs);
+  };
+
+  const end = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+
+    const episode = openEpisodes.get(key);
+    openEpisodes.delete(key);
+    if (!episode?.reported) return;
+
+    const endedAt = Date.now();
+    context.report(type, {
+      timestamp: new Date(episode.startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      durationMs: endedAt - episode.startedAt,
+      scored: false,
+      metadata: { episode: 'end' },
+    });
+  };
+
+  return {
+    begin,
+    end,
+    // Picks up whatever state the page is in when the detector (re)starts
+    sync: (active: boolean) => {
+      if (!active) {
+        end();
+        return;
+      }
+      if (openEpisodes.has(key)) {
+        schedule(minDurationMs);
+        return;
+      }
+      openEpisodes.set(key, { startedAt: Date.now(), reported: false });
+      schedule(Math.max(minDurationMs, STARTUP_GRACE_MS));
+    },
+    stop: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
+
+const tabSwitchConfigSchema = z.object({ minDurationMs: z.number().min(0).default(0) });
+
+export const tabSwitchDetector: DetectorDefinition<z.infer<typeof tabSwitchConfigSchema>> = {
+  id: 'tab-switch',
+  label: 'Tab switching',
+  configSchema: tabSwitchConfigSchema.default({}),
+  waitForExamStart: true,
+  start: (context, { minDurationMs }) => {
+    const episode = createEpisodeTracker(context, 'tab-switch', minDurationMs);
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) episode.begin();
+      else episode.end();
+    };
+
+    episode.sync(document.hidden);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      episode.stop();
+    };
+  },
+};
+
+// Only logs exits; the hook itself shows the warning and puts the page back in fullscreen
+export const fullscreenExitDetector: DetectorDefinition<Record<string, never>> = {
+  id: 'fullscreen-exit',
+  label: 'Fullscreen exits',
+  configSchema: z.object({}).strict().default({}),
+  waitForExamStart: true,
+  start: (context) => {
+    const episode = createEpisodeTracker(context, 'fullscreen-exit');
+
+    const handleFullscreenChange = () => {
+      if (document.fullscreenElement !== null) episode.end();
+      else episode.begin();
+    };
+
+    episode.sync(document.fullscreenElement === null);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      episode.stop();
+    };
+  },
+};
+
+const clipboardConfigSchema = z.object({
+  copy: z.boolean().default(true),
+  paste: z.boolean().default(true),
+  cut: z.boolean().default(true),
+  contextMenu: z.boolean().default(true),
+});
+
+// Blocks without logging a violation, the candidate is only told why nothing happened
+export const clipboardDetector: DetectorDefinition<z.infer<typeof clipboardConfigSchema>> = {
+  id: 'clipboard',
+  label: 'Copy, paste and right-click blocking',
+  configSchema: clipboardConfigSchema.default({}),
+  waitForExamStart: false,
+  start: (context, config) => {
+    const block = (message: string) => (e: Event) => {
+      e.preventDefault();
+      context.notify(message);
+    };
+
+    const listeners: [string, EventListener][] = [];
+    if (config.copy) listeners.push(['copy', block("ℹ️ Copy/paste is disabled during the exam")]);
+    if (config.paste) listeners.push(['paste', block("ℹ️ Copy/paste is disabled during the exam")]);
+    if (config.cut) listeners.push(['cut', block("ℹ️ Cut is disabled during the exam")]);
+    if (config.contextMenu) listeners.push(['contextmenu', block("ℹ️ Right-click is disabled during the exam")]);
+
+    listeners.forEach(([event, listener]) => document.addEventListener(event, listener));
+    return () => listeners.forEach(([event, listener]) => document.removeEventListener(event, listener));
+  },
+};
+
+export const keyboardDetector: DetectorDefinition<Record<string, never>> = {
+  id: 'blocked-shortcut',
+  label: 'Escape and inspection shortcuts',
+  configSchema: z.object({}).strict().default({}),
+  waitForExamStart: true,
+  start: (context) => {
+    const keyboard = createKeyboardMonitor({
+      onBlocked: ({ combo, suppressed }) => context.report('blocked-shortcut', { metadata: { combo, suppressed } }),
+    });
+    keyboard.start();
+    return keyboard.stop;
+  },
+};
+
+const devToolsConfigSchema = z.object({ intervalMs: z.number().min(500).default(2000) });
+
+export const devToolsDetector: DetectorDefinition<z.infer<typeof devToolsConfigSchema>> = {
+  id: 'devtools-open',
+  label: 'Developer tools',
+  configSchema: devToolsConfigSchema.default({}),
+  waitForExamStart: true,
+  start: (context, { intervalMs }) => {
+    const devtools = createDevToolsDetector({
+      intervalMs,
+      onChange: (open, method) => {
+        if (open && method) context.report('devtools-open', { metadata: { method } });
+      },
+    });
+    devtools.start();
+    return devtools.stop;
+  },
+};
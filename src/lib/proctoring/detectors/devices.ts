@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { detectVirtualCamera, watchDeviceChanges, watchFrozenFrames } from "../deviceIntegrity";
+import type { DetectorDefinition } from "./types";
+
+export const virtualCameraDetector: DetectorDefinition<Record<string, never>> = {
+  id: 'virtual-camera',
+  label: 'Virtual cameras',
+  configSchema: z.object({}).strict().default({}),
+  waitForExamStart: true,
+  start: (context) => {
+    const stream = context.getStream();
+    const virtualCamera = stream && detectVirtualCamera(stream);
+    if (virtualCamera) context.report('virtual-camera', { metadata: { label: virtualCamera } });
+    return () => {};
+  },
+};
+
+export const deviceChangeDetector: DetectorDefinition<Record<string, never>> = {
+  id: 'device-change',
+  label: 'Media devices plugged in or removed',
+  configSchema: z.object({}).strict().default({}),
+  waitForExamStart: true,
+  start: (context) =>
+    watchDeviceChanges(({ added, removed }) => {
+      context.report('device-change', {
+        metadata: { added: added.join(', '), removed: removed.join(', ') },
+      });
+    }),
+};
+
+const frozenVideoConfigSchema = z.object({
+  sampleMs: z.number().min(250).default(1000),
+  confirmMs: z.number().min(1000).default(5000),
+});
+
+export const frozenVideoDetector: DetectorDefinition<z.infer<typeof frozenVideoConfigSchema>> = {
+  id: 'frozen-video',
+  label: 'Frozen camera feed',
+  configSchema: frozenVideoConfigSchema.default({}),
+  waitForExamStart: true,
+  start: (context, { sampleMs, confirmMs }) => {
+    const video = context.getVideo();
+    if (!video) return () => {};
+
+    return watchFrozenFrames(video, {
+      sampleMs,
+      confirmMs,
+      onFrozen: (frozenForMs) => context.report('frozen-video', { durationMs: frozenForMs }),
+    });
+  },
+};
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { createFocusTracker, createIdleDetector, type InactivityEpisode } from "../focusTracking";
+import type { ViolationType } from "../types";
+import type { DetectorContext, DetectorDefinition } from "./types";
+
+const reportEpisode = (context: DetectorContext, type: ViolationType) => (episode: InactivityEpisode) => {
+  context.report(type, {
+    timestamp: new Date(episode.startedAt).toISOString(),
+    endedAt: new Date(episode.endedAt).toISOString(),
+    durationMs: episode.endedAt - episode.startedAt,
+  });
+};
+
+export const windowFocusDetector: DetectorDefinition<Record<string, never>> = {
+  id: 'window-blur',
+  label: 'Focus moving to other windows',
+  configSchema: z.object({}).strict().default({}),
+  waitForExamStart: true,
+  start: (context) => {
+    const focus = createFocusTracker(context.sessionId, reportEpisode(context, 'window-blur'));
+    focus.start();
+    return focus.stop;
+  },
+};
+
+// No input and no face for this long counts as the candidate being idle
+const idleConfigSchema = z.object({ thresholdMs: z.number().min(5000).default(30000) });
+
+export const idleDetector: DetectorDefinition<z.infer<typeof idleConfigSchema>> = {
+  id: 'idle',
+  label: 'Candidate inactivity',
+  configSchema: idleConfigSchema.default({}),
+  waitForExamStart: true,
+  start: (context, { thresholdMs }) => {
+    const idle = createIdleDetector({
+      sessionId: context.sessionId,
+      thresholdMs,
+      getLastFaceSeenAt: context.getLastFaceSeenAt,
+      onEpisode: reportEpisode(context, 'idle'),
+    });
+    idle.start();
+    return idle.stop;
+  },
+};
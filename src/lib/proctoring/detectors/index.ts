@@ -0,0 +1,18 @@
+import { registerBuiltInDetector } from "./registry";
+import { clipboardDetector, devToolsDetector, fullscreenExitDetector, keyboardDetector, tabSwitchDetector } from "./browser";
+import { idleDetector, windowFocusDetector } from "./inactivity";
+import { deviceChangeDetector, frozenVideoDetector, virtualCameraDetector } from "./devices";
+
+registerBuiltInDetector(tabSwitchDetector);
+registerBuiltInDetector(fullscreenExitDetector);
+registerBuiltInDetector(clipboardDetector);
+registerBuiltInDetector(keyboardDetector);
+registerBuiltInDetector(devToolsDetector);
+registerBuiltInDetector(windowFocusDetector);
+registerBuiltInDetector(idleDetector);
+registerBuiltInDetector(virtualCameraDetector);
+registerBuiltInDetector(deviceChangeDetector);
+registerBuiltInDetector(frozenVideoDetector);
+
+export { listDetectors, registerDetector, resolveDetectors, type ResolvedDetector } from "./registry";
+export type { DetectorContext, DetectorDefinition, StopDetector, ViolationDetails } from "./types";
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { DetectorContext, DetectorDefinition, StopDetector } from "./types";
+
+// A detector with its config already applied, ready for the hook to start
+export interface ResolvedDetector {
+  id: string;
+  waitForExamStart: boolean;
+  start: (context: DetectorContext) => StopDetector;
+}
+
+interface RegisteredDetector {
+  id: string;
+  label: string;
+  builtIn: boolean;
+  resolve: (config: unknown) => ResolvedDetector;
+}
+
+const registry = new Map<string, RegisteredDetector>();
+
+const register = <Config>(definition: DetectorDefinition<Config>, builtIn: boolean) => {
+  if (registry.has(definition.id)) {
+    console.warn(`Detector "${definition.id}" is already registered, replacing it`);
+  }
+
+  registry.set(definition.id, {
+    id: definition.id,
+    label: definition.label,
+    builtIn,
+    resolve: (input) => {
+      const result = definition.configSchema.safeParse(input);
+      if (!result.success) {
+        console.warn(`Invalid config for detector "${definition.id}", using defaults:`, result.error.flatten());
+      }
+      const config = result.success ? result.data : definition.configSchema.parse(undefined);
+
+      return {
+        id: definition.id,
+        waitForExamStart: definition.waitForExamStart,
+        start: (context) => definition.start(context, config),
+      };
+    },
+  });
+};
+
+// Institution-specific detectors are registered at startup and enabled per exam by id
+export const registerDetector = <Config>(definition: DetectorDefinition<Config>) => register(definition, false);
+
+export const registerBuiltInDetector = <Config>(definition: DetectorDefinition<Config>) => register(definition, true);
+
+export const listDetectors = () =>
+  [...registry.values()].map(({ id, label, builtIn }) => ({ id, label, builtIn }));
+
+const detectorSelectionSchema = z.array(
+  z.union([z.string(), z.object({ id: z.string(), config: z.unknown().optional() })]),
+);
+
+// Turns the exam's `detectors` list into runnable detectors. Without a list
+// every built-in detector runs with its default config.
+export const resolveDetectors = (input: unknown): ResolvedDetector[] => {
+  const parsed = input == null ? null : detectorSelectionSchema.safeParse(input);
+  if (parsed && !parsed.success) {
+    console.warn('Invalid detector selection, using built-in detectors:', parsed.error.flatten());
+  }
+
+  const selection = parsed?.success
+    ? parsed.data.map((entry) => (typeof entry === 'string' ? { id: entry, config: undefined } : entry))
+    : [...registry.values()].filter((d) => d.builtIn).map((d) => ({ id: d.id, config: undefined }));
+
+  return selection.flatMap(({ id, config }) => {
+    const detector = registry.get(id);
+    if (!detector) {
+      console.warn(`Unknown detector "${id}" in exam config, skipping it`);
+      return [];
+    }
+    return [detector.resolve(config)];
+  });
+};
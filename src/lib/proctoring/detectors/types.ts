@@ -0,0 +1,28 @@
+import type { z } from "zod";
+import type { ViolationLog, ViolationType } from "../types";
+
+export type ViolationDetails = Partial<Omit<ViolationLog, 'type' | 'sequence' | 'previousHash' | 'hash'>>;
+
+// What the hook hands every detector; detectors never touch React state directly
+export interface DetectorContext {
+  sessionId: string;
+  getStream: () => MediaStream | null;
+  getVideo: () => HTMLVideoElement | null;
+  getLastFaceSeenAt: () => number;
+  report: (type: ViolationType, details?: ViolationDetails) => void;
+  notify: (message: string) => void;
+}
+
+// Must detach every listener; open episodes are either flushed through report or carried over to the next start
+export type StopDetector = () => void;
+
+export interface DetectorDefinition<Config> {
+  id: string;
+  label: string;
+  // Parsed from the exam config; defaults apply when the exam gives none
+  configSchema: z.ZodType<Config, z.ZodTypeDef, unknown>;
+  // Checks that would misfire on permission prompts or the screen share picker
+  // only start once the exam itself is running
+  waitForExamStart: boolean;
+  start: (context: DetectorContext, config: Config) => StopDetector;
+}
@@ -0,0 +1,114 @@
+import { getFrameDifference, getFrameSignature } from "./roomScan";
+
+// Labels reported by common virtual camera drivers and streaming tools
+const VIRTUAL_CAMERA_PATTERNS = [
+  /obs/i,
+  /virtual/i,
+  /manycam/i,
+  /snap camera/i,
+  /xsplit/i,
+  /droidcam/i,
+  /epoccam/i,
+  /camtwist/i,
+  /iriun/i,
+  /\bndi\b/i,
+  /mmhmm/i,
+  /splitcam/i,
+  /e2esoft|vcam/i,
+  /youcam/i,
+  /chromacam/i,
+  /nvidia broadcast/i,
+];
+
+export const isVirtualCameraLabel = (label: string) => VIRTUAL_CAMERA_PATTERNS.some((pattern) => pattern.test(label));
+
+// Label of the camera actually feeding the stream, if it looks like a virtual one
+export const detectVirtualCamera = (stream: MediaStream) => {
+  const track = stream.getVideoTracks().find((t) => t.readyState === 'live');
+  return track && isVirtualCameraLabel(track.label) ? track.label : null;
+};
+
+export interface DeviceChange {
+  added: string[];
+  removed: string[];
+}
+
+const describeDevice = (device: MediaDeviceInfo) => `${device.kind}: ${device.label || device.deviceId.slice(0, 8)}`;
+
+const listDevices = async () => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return new Map(devices.map((device) => [`${device.kind}:${device.deviceId}`, describeDevice(device)]));
+};
+
+export const watchDeviceChanges = (onChange: (change: DeviceChange) => void) => {
+  if (!navigator.mediaDevices?.enumerateDevices) return () => {};
+
+  let known: Promise<Map<string, string>> = listDevices();
+  let stopped = false;
+
+  const handleDeviceChange = () => {
+    const previous = known;
+    known = listDevices();
+
+    Promise.all([previous, known])
+      .then(([before, after]) => {
+        if (stopped) return;
+        const added = [...after.keys()].filter((id) => !before.has(id)).map((id) => after.get(id)!);
+        const removed = [...before.keys()].filter((id) => !after.has(id)).map((id) => before.get(id)!);
+        if (added.length || removed.length) onChange({ added, removed });
+      })
+      .catch((error) => console.error('Error enumerating media devices:', error));
+  };
+
+  navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+
+  return () => {
+    stopped = true;
+    navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  };
+};
+
+export interface FrozenFrameOptions {
+  onFrozen: (frozenForMs: number) => void;
+  sampleMs?: number;
+  confirmMs?: number;
+}
+
+// Live sensors always add some noise; a feed this still is a stuck or still-image source
+const FROZEN_FRAME_THRESHOLD = 0.0005;
+const DEFAULT_SAMPLE_MS = 1000;
+const DEFAULT_CONFIRM_MS = 5000;
+
+// Compares consecutive frames and reports once per episode when the feed stops changing
+export const watchFrozenFrames = (
+  video: HTMLVideoElement,
+  { onFrozen, sampleMs = DEFAULT_SAMPLE_MS, confirmMs = DEFAULT_CONFIRM_MS }: FrozenFrameOptions,
+) => {
+  const canvas = document.createElement('canvas');
+  let previous: Uint8Array | null = null;
+  let stillSince: number | null = null;
+  let reported = false;
+
+  const interval = setInterval(() => {
+    const signature = getFrameSignature(video, canvas);
+    if (!signature) return;
+
+    const still = previous !== null && getFrameDifference(previous, signature) < FROZEN_FRAME_THRESHOLD;
+    previous = signature;
+
+    if (!still) {
+      stillSince = null;
+      reported = false;
+      return;
+    }
+
+    stillSince ??= Date.now() - sampleMs;
+    const frozenForMs = Date.now() - stillSince;
+    if (!reported && frozenForMs >= confirmMs) {
+      reported = true;
+      onFrozen(frozenForMs);
+    }
+  }, sampleMs);
+
+  return () => clearInterval(interval);
+};
@@ -0,0 +1,84 @@
+export type DevToolsMethod = 'window-size' | 'debugger-timing';
+
+export interface DevToolsDetectorOptions {
+  onChange: (open: boolean, method: DevToolsMethod | null) => void;
+  intervalMs?: number;
+}
+
+export interface DevToolsDetector {
+  start: () => void;
+  stop: () => void;
+}
+
+// A docked DevTools panel takes at least this many pixels from the viewport
+const SIZE_THRESHOLD_PX = 160;
+// A debugger statement only takes this long when DevTools is open and pauses on it
+const DEBUGGER_THRESHOLD_MS = 100;
+const DEFAULT_INTERVAL_MS = 2000;
+
+interface WindowGap {
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+// The space the browser takes around the page. The viewport is converted back to the
+// zoom level the gap was first measured at, since zooming changes devicePixelRatio
+// and the viewport's CSS size but leaves the physical viewport alone.
+const measureWindowGap = (baseline?: WindowGap): WindowGap => {
+  const pixelRatio = window.devicePixelRatio || 1;
+  const scale = baseline ? pixelRatio / baseline.pixelRatio : 1;
+  return {
+    width: window.outerWidth - window.innerWidth * scale,
+    height: window.outerHeight - window.innerHeight * scale,
+    pixelRatio: baseline?.pixelRatio ?? pixelRatio,
+  };
+};
+
+// A panel docked since the start is part of the baseline; the debugger-timing check covers it
+export const isDevToolsDocked = (baseline: WindowGap) => {
+  const gap = measureWindowGap(baseline);
+  return gap.width - baseline.width > SIZE_THRESHOLD_PX || gap.height - baseline.height > SIZE_THRESHOLD_PX;
+};
+
+// Built at runtime so the bundler and linter leave the statement alone
+const pauseOnDebugger = new Function('debugger');
+
+export const isDebuggerAttached = () => {
+  const start = performance.now();
+  pauseOnDebugger();
+  return performance.now() - start > DEBUGGER_THRESHOLD_MS;
+};
+
+export const createDevToolsDetector = ({ onChange, intervalMs = DEFAULT_INTERVAL_MS }: DevToolsDetectorOptions): DevToolsDetector => {
+  let interval: ReturnType<typeof setInterval> | null = null;
+  let open = false;
+  let baseline: WindowGap | null = null;
+
+  const check = () => {
+    const method: DevToolsMethod | null = baseline && isDevToolsDocked(baseline)
+      ? 'window-size'
+      : isDebuggerAttached()
+        ? 'debugger-timing'
+        : null;
+
+    if ((method !== null) !== open) {
+      open = method !== null;
+      onChange(open, method);
+    }
+  };
+
+  return {
+    start: () => {
+      if (interval) return;
+      baseline = measureWindowGap();
+      check();
+      interval = setInterval(check, intervalMs);
+    },
+    stop: () => {
+      if (interval) clearInterval(interval);
+      interval = null;
+      open = false;
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import * as faceapi from "@vladmandic/face-api";
+
+// Model weights are copied out of the face-api package at build time (see vite.config.ts)
+export const FACE_MODEL_URL = "/models";
+
+// The bundled typings only describe the tf ops face-api uses internally
+const tf = faceapi.tf as typeof faceapi.tf & {
+  setBackend: (name: string) => Promise<boolean>;
+  ready: () => Promise<void>;
+};
+
+export const detectorOptions = new faceapi.TinyFaceDetectorOptions({ inputSize: 224, scoreThreshold: 0.5 });
+
+let backendLoading: Promise<void> | null = null;
+let detectorLoading: Promise<void> | null = null;
+
+export const loadFaceBackend = () => {
+  if (!backendLoading) {
+    backendLoading = (async () => {
+      await tf.setBackend('cpu');
+      await tf.ready();
+    })().catch((error) => {
+      backendLoading = null;
+      throw error;
+    });
+  }
+  return backendLoading;
+};
+
+export const loadFaceDetector = () => {
+  if (!detectorLoading) {
+    detectorLoading = (async () => {
+      await loadFaceBackend();
+      await faceapi.nets.tinyFaceDetector.loadFromUri(FACE_MODEL_URL);
+    })().catch((error) => {
+      detectorLoading = null;
+      throw error;
+    });
+  }
+  return detectorLoading;
+};
+
+export const detectFaces = async (input: HTMLCanvasElement | HTMLVideoElement) => {
+  await loadFaceDetector();
+  return faceapi.detectAllFaces(input, detectorOptions);
+};
+
+export const countFaces = async (input: HTMLCanvasElement | HTMLVideoElement) =>
+  (await detectFaces(input)).length;
@@ -0,0 +1,120 @@
+export interface InactivityEpisode {
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface InactivityTracker {
+  start: () => void;
+  // Leaves any open episode to the next start for the session; with no restart, as after submitting, it is dropped
+  stop: () => void;
+}
+
+// Kept outside the trackers so an episode spanning a detector restart is logged once, with its full length
+const openBlurs = new Map<string, number>();
+const openIdles = new Map<string, { idleSince: number; lastInputAt: number }>();
+
+// Shorter focus losses are usually the OS stealing focus for a notification
+const MIN_BLUR_MS = 1000;
+
+// Catches focus moving to another window without the tab being hidden, e.g. an app
+// on a second monitor or an overlay. Hidden tabs are left to the tab switch check.
+export const createFocusTracker = (
+  sessionId: string,
+  onEpisode: (episode: InactivityEpisode) => void,
+): InactivityTracker => {
+  let blurredAt: number | null = null;
+
+  const end = () => {
+    if (blurredAt === null) return;
+    const episode = { startedAt: blurredAt, endedAt: Date.now() };
+    blurredAt = null;
+    if (episode.endedAt - episode.startedAt >= MIN_BLUR_MS) onEpisode(episode);
+  };
+
+  const handleBlur = () => {
+    if (!document.hidden) blurredAt = Date.now();
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.hidden) blurredAt = null;
+  };
+
+  return {
+    start: () => {
+      blurredAt = openBlurs.get(sessionId) ?? null;
+      openBlurs.delete(sessionId);
+      // Focus may have come back while the tracker was stopped
+      if (document.hasFocus()) end();
+
+      window.addEventListener('blur', handleBlur);
+      window.addEventListener('focus', end);
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    },
+    stop: () => {
+      window.removeEventListener('blur', handleBlur);
+      window.removeEventListener('focus', end);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (blurredAt !== null) openBlurs.set(sessionId, blurredAt);
+      blurredAt = null;
+    },
+  };
+};
+
+export interface IdleDetectorOptions {
+  sessionId: string;
+  thresholdMs: number;
+  // Time the candidate's face was last seen, the detector only tracks input itself
+  getLastFaceSeenAt: () => number;
+  onEpisode: (episode: InactivityEpisode) => void;
+}
+
+const IDLE_CHECK_MS = 1000;
+const INPUT_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Idle means neither input nor a face for the whole threshold. The episode is
+// logged once activity resumes, starting from the last sign of the candidate.
+export const createIdleDetector = ({ sessionId, thresholdMs, getLastFaceSeenAt, onEpisode }: IdleDetectorOptions): InactivityTracker => {
+  let lastInputAt = Date.now();
+  let idleSince: number | null = null;
+  let interval: ReturnType<typeof setInterval> | null = null;
+
+  const lastActivity = () => Math.max(lastInputAt, getLastFaceSeenAt());
+
+  const end = () => {
+    if (idleSince === null) return;
+    onEpisode({ startedAt: idleSince, endedAt: Date.now() });
+    idleSince = null;
+  };
+
+  const check = () => {
+    const since = lastActivity();
+    if (Date.now() - since >= thresholdMs) {
+      idleSince ??= since;
+    } else {
+      end();
+    }
+  };
+
+  const handleInput = () => {
+    lastInputAt = Date.now();
+    if (idleSince !== null) end();
+  };
+
+  return {
+    start: () => {
+      const carried = openIdles.get(sessionId);
+      openIdles.delete(sessionId);
+      idleSince = carried?.idleSince ?? null;
+      lastInputAt = carried?.lastInputAt ?? Date.now();
+      INPUT_EVENTS.forEach((event) => window.addEventListener(event, handleInput, { passive: true }));
+      interval = setInterval(check, IDLE_CHECK_MS);
+    },
+    stop: () => {
+      INPUT_EVENTS.forEach((event) => window.removeEventListener(event, handleInput));
+      if (interval) clearInterval(interval);
+      interval = null;
+      if (idleSince !== null) openIdles.set(sessionId, { idleSince, lastInputAt });
+      idleSince = null;
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import * as faceapi from "@vladmandic/face-api";
+import { FACE_MODEL_URL, detectorOptions, loadFaceDetector } from "./faceDetection";
+
+export type GazeDirection = 'center' | 'left' | 'right' | 'up' | 'down';
+
+export interface HeadPose {
+  // 0 is facing the camera; negative turns towards the candidate's right
+  yaw: number;
+  // 0 is level; negative tilts up
+  pitch: number;
+  direction: GazeDirection;
+}
+
+export type AttentionStatus = 'unknown' | 'focused' | 'looking-away' | 'no-face';
+
+export interface AttentionState {
+  status: AttentionStatus;
+  direction: GazeDirection | null;
+  // Milliseconds the current looking-away episode has lasted so far
+  awayForMs: number;
+}
+
+// Normalised offsets beyond which the head is considered turned away
+const YAW_LIMIT = 0.18;
+const PITCH_UP_LIMIT = -0.15;
+const PITCH_DOWN_LIMIT = 0.17;
+
+// Nose tip sits roughly this far between the eye line and the chin when level
+const NEUTRAL_PITCH_RATIO = 0.42;
+
+let landmarksLoading: Promise<void> | null = null;
+
+export const loadGazeTracker = () => {
+  if (!landmarksLoading) {
+    landmarksLoading = (async () => {
+      await loadFaceDetector();
+      await faceapi.nets.faceLandmark68TinyNet.loadFromUri(FACE_MODEL_URL);
+    })().catch((error) => {
+      landmarksLoading = null;
+      throw error;
+    });
+  }
+  return landmarksLoading;
+};
+
+const midpoint = (points: faceapi.Point[]) => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+export const estimateHeadPose = (landmarks: faceapi.FaceLandmarks68): HeadPose => {
+  const jaw = landmarks.getJawOutline();
+  const nose = landmarks.getNose();
+  const noseTip = nose[3];
+  const eyes = midpoint([...landmarks.getLeftEye(), ...landmarks.getRightEye()]);
+  const chin = jaw[8];
+  const jawLeft = jaw[0];
+  const jawRight = jaw[16];
+
+  const faceWidth = jawRight.x - jawLeft.x || 1;
+  const faceHeight = chin.y - eyes.y || 1;
+
+  const yaw = (noseTip.x - jawLeft.x) / faceWidth - 0.5;
+  const pitch = (noseTip.y - eyes.y) / faceHeight - NEUTRAL_PITCH_RATIO;
+
+  let direction: GazeDirection = 'center';
+  if (yaw < -YAW_LIMIT) direction = 'right';
+  else if (yaw > YAW_LIMIT) direction = 'left';
+  else if (pitch < PITCH_UP_LIMIT) direction = 'up';
+  else if (pitch > PITCH_DOWN_LIMIT) direction = 'down';
+
+  return { yaw, pitch, direction };
+};
+
+// Returns null when no face is visible in the frame
+export const trackHeadPose = async (input: HTMLVideoElement | HTMLCanvasElement): Promise<HeadPose | null> => {
+  await loadGazeTracker();
+  const result = await faceapi.detectSingleFace(input, detectorOptions).withFaceLandmarks(true);
+  return result ? estimateHeadPose(result.landmarks) : null;
+};
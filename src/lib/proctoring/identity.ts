@@ -0,0 +1,82 @@
+import * as faceapi from "@vladmandic/face-api";
+import { FACE_MODEL_URL, detectorOptions } from "./faceDetection";
+import { loadGazeTracker } from "./gazeTracking";
+
+export type IdentityStatus = 'pending' | 'verifying' | 'verified' | 'mismatch' | 'unverifiable';
+
+export interface IdentityState {
+  status: IdentityStatus;
+  // Euclidean distance between the captured face and the profile picture; lower is more alike
+  distance: number | null;
+  attempts: number;
+  message: string | null;
+}
+
+type FaceInput = HTMLImageElement | HTMLCanvasElement | HTMLVideoElement;
+
+// face-api's recommended cut-off for the 128-d descriptors is 0.6; stay a little stricter
+export const MATCH_THRESHOLD = 0.55;
+
+// Mismatched attempts after which the candidate may continue, flagged for manual review
+export const MAX_IDENTITY_ATTEMPTS = 3;
+
+// Whether the candidate is past the identity step, verified or not
+export const isIdentityComplete = (identity: IdentityState) =>
+  identity.status === 'verified'
+  || identity.status === 'unverifiable'
+  || (identity.status === 'mismatch' && identity.attempts >= MAX_IDENTITY_ATTEMPTS);
+
+let recognitionLoading: Promise<void> | null = null;
+
+export const loadIdentityModels = () => {
+  if (!recognitionLoading) {
+    recognitionLoading = (async () => {
+      await loadGazeTracker();
+      await faceapi.nets.faceRecognitionNet.loadFromUri(FACE_MODEL_URL);
+    })().catch((error) => {
+      recognitionLoading = null;
+      throw error;
+    });
+  }
+  return recognitionLoading;
+};
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load image: ${src.slice(0, 64)}`));
+    image.src = src;
+  });
+
+// Returns null when there isn't exactly one usable face in the input
+export const getFaceDescriptor = async (input: FaceInput) => {
+  await loadIdentityModels();
+  // detectSingleFace would pick the best match out of several, letting a second person through
+  const results = await faceapi
+    .detectAllFaces(input, detectorOptions)
+    .withFaceLandmarks(true)
+    .withFaceDescriptors();
+  return results.length === 1 ? results[0].descriptor : null;
+};
+
+export const compareDescriptors = (a: Float32Array, b: Float32Array) => faceapi.euclideanDistance(a, b);
+
+export const fetchProfilePicture = async (): Promise<string | null> => {
+  const token = localStorage.getItem("token");
+  const response = await fetch("http://localhost:3000/user/profile", {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`API Error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data?.response?.profilePicture || null;
+};
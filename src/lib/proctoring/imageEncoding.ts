@@ -0,0 +1,80 @@
+export type ImageFormat = 'webp' | 'jpeg';
+
+export interface EncodeOptions {
+  maxWidth: number;
+  maxHeight: number;
+  format: ImageFormat;
+  quality: number;
+  // How the frame used to be sent, to work out what the new encoding saves; only encoded when asked for
+  baseline: { maxWidth: number; quality: number; measure: boolean };
+}
+
+export interface EncodedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  // Size of the base64 JPEG data URL the old pipeline would have posted, when measured
+  baselineBytes: number | null;
+}
+
+type EncodingCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+const BASE64_JPEG_PREFIX = "data:image/jpeg;base64,".length;
+
+// Browsers that can't encode WebP silently return PNG, so the first attempt settles it
+let webpSupported: boolean | null = null;
+
+export const fitWithin = (width: number, height: number, maxWidth: number, maxHeight = Infinity) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const createCanvas = (width: number, height: number): EncodingCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const toBlob = (canvas: EncodingCanvas, type: string, quality: number): Promise<Blob | null> =>
+  'convertToBlob' in canvas
+    ? canvas.convertToBlob({ type, quality })
+    : new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+
+const drawScaled = (bitmap: ImageBitmap, maxWidth: number, maxHeight?: number) => {
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, maxWidth, maxHeight);
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!context) throw new Error("Canvas 2D context unavailable");
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+};
+
+const encodeCanvas = async (canvas: EncodingCanvas, format: ImageFormat, quality: number) => {
+  if (format === 'webp' && webpSupported !== false) {
+    const webp = await toBlob(canvas, 'image/webp', quality);
+    webpSupported = webp?.type === 'image/webp';
+    if (webpSupported) return webp;
+  }
+
+  const jpeg = await toBlob(canvas, 'image/jpeg', quality);
+  if (!jpeg) throw new Error("Image encoding failed");
+  return jpeg;
+};
+
+// Runs in the encoder worker, or on the main thread where workers can't use OffscreenCanvas
+export const encodeBitmap = async (bitmap: ImageBitmap, options: EncodeOptions): Promise<EncodedImage> => {
+  const canvas = drawScaled(bitmap, options.maxWidth, options.maxHeight);
+  const blob = await encodeCanvas(canvas, options.format, options.quality);
+
+  let baselineBytes: number | null = null;
+  if (options.baseline.measure) {
+    const baseline = await toBlob(drawScaled(bitmap, options.baseline.maxWidth), 'image/jpeg', options.baseline.quality);
+    if (baseline) baselineBytes = Math.ceil(baseline.size / 3) * 4 + BASE64_JPEG_PREFIX;
+  }
+
+  return { blob, width: canvas.width, height: canvas.height, baselineBytes };
+};
@@ -0,0 +1,81 @@
+export interface BlockedShortcut {
+  combo: string;
+  // Whether preventDefault actually stops it; the OS handles some combos before the page sees them
+  suppressed: boolean;
+}
+
+export interface KeyboardMonitorOptions {
+  onBlocked: (shortcut: BlockedShortcut) => void;
+}
+
+export interface KeyboardMonitor {
+  start: () => void;
+  stop: () => void;
+}
+
+const describeCombo = (e: KeyboardEvent) => {
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.metaKey) parts.push('Meta');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  return parts.join('+');
+};
+
+// Returns whether the key event is one of the escape, print or inspection shortcuts
+export const isBlockedShortcut = (e: KeyboardEvent) => {
+  const key = e.key.toLowerCase();
+  const mod = e.ctrlKey || e.metaKey;
+
+  if (key === 'f12' || key === 'printscreen') return true;
+  // DevTools, element picker and console
+  if (mod && e.shiftKey && ['i', 'j', 'c', 'k'].includes(key)) return true;
+  if (e.metaKey && e.altKey && ['i', 'j', 'c', 'u'].includes(key)) return true;
+  // Print, save, view source, new window or tab, address bar, open file
+  if (mod && !e.shiftKey && ['p', 's', 'u', 'n', 't', 'l', 'o'].includes(key)) return true;
+  // Switching tabs or windows
+  if ((e.altKey || mod) && key === 'tab') return true;
+  if (e.altKey && (key === 'f4' || key === 'arrowleft' || key === 'arrowright')) return true;
+
+  return false;
+};
+
+// The OS acts on window switching before the page sees it, it is logged but not stopped
+const isSuppressible = (e: KeyboardEvent) => !(e.altKey && ['tab', 'f4'].includes(e.key.toLowerCase()));
+
+export const createKeyboardMonitor = ({ onBlocked }: KeyboardMonitorOptions): KeyboardMonitor => {
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (!isBlockedShortcut(e)) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    // Logged on keyup, which is the only event Windows reports for it
+    if (e.key.toLowerCase() === 'printscreen') return;
+    // Holding a combo down fires repeats that would each count as a violation
+    if (e.repeat) return;
+
+    onBlocked({ combo: describeCombo(e), suppressed: isSuppressible(e) });
+  };
+
+  // By keyup the screenshot has already been taken, so clear it from the clipboard
+  const handleKeyUp = (e: KeyboardEvent) => {
+    if (e.key.toLowerCase() !== 'printscreen') return;
+
+    onBlocked({ combo: 'PrintScreen', suppressed: false });
+    navigator.clipboard?.writeText('').catch(() => {
+      // Clipboard access needs focus and permission, nothing more can be done without it
+    });
+  };
+
+  return {
+    start: () => {
+      window.addEventListener('keydown', handleKeyDown, true);
+      window.addEventListener('keyup', handleKeyUp, true);
+    },
+    stop: () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('keyup', handleKeyUp, true);
+    },
+  };
+};
@@ -0,0 +1,116 @@
+import { z } from "zod";
+
+const LIVE_URL = "ws://localhost:3000/proctor/live";
+const MAX_RECONNECT_DELAY_MS = 30000;
+// Oldest messages are dropped first once this many are waiting for a connection
+const MAX_BUFFERED_MESSAGES = 200;
+
+export const proctorCommandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('warning'), id: z.string().optional(), message: z.string() }),
+  z.object({ type: z.literal('pause'), reason: z.string().optional() }),
+  z.object({ type: z.literal('resume') }),
+  z.object({ type: z.literal('reverify') }),
+  z.object({ type: z.literal('terminate'), reason: z.string().optional() }),
+]);
+
+export type ProctorCommand = z.infer<typeof proctorCommandSchema>;
+
+export type LiveConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface LiveChannelOptions {
+  sessionId: string;
+  onCommand: (command: ProctorCommand) => void;
+  onStatusChange?: (status: LiveConnectionStatus) => void;
+  // Messages other than commands, e.g. chat, are handed on untouched
+  onMessage?: (message: Record<string, unknown>) => void;
+}
+
+export interface LiveChannel {
+  send: (message: Record<string, unknown>) => void;
+  close: () => void;
+}
+
+export const createLiveChannel = ({ sessionId, onCommand, onStatusChange, onMessage }: LiveChannelOptions): LiveChannel => {
+  const buffer: string[] = [];
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let closed = false;
+
+  const flush = () => {
+    while (socket?.readyState === WebSocket.OPEN && buffer.length) {
+      socket.send(buffer.shift());
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return;
+    const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+    attempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch {
+      console.warn('Ignoring malformed proctor message:', event.data);
+      return;
+    }
+
+    const command = proctorCommandSchema.safeParse(data);
+    if (command.success) {
+      onCommand(command.data);
+    } else if (data && typeof data === 'object') {
+      onMessage?.(data as Record<string, unknown>);
+    }
+  };
+
+  const connect = () => {
+    if (closed) return;
+
+    const token = localStorage.getItem("token");
+    const params = new URLSearchParams({ sessionId, ...(token && { token }) });
+
+    onStatusChange?.('connecting');
+    socket = new WebSocket(`${LIVE_URL}?${params}`);
+
+    socket.onopen = () => {
+      attempts = 0;
+      onStatusChange?.('connected');
+      flush();
+    };
+    socket.onmessage = handleMessage;
+    socket.onclose = () => {
+      socket = null;
+      onStatusChange?.('disconnected');
+      scheduleReconnect();
+    };
+    socket.onerror = () => {
+      // onclose follows and takes care of reconnecting
+      socket?.close();
+    };
+  };
+
+  const send = (message: Record<string, unknown>) => {
+    buffer.push(JSON.stringify({ ...message, sessionId, sentAt: new Date().toISOString() }));
+    if (buffer.length > MAX_BUFFERED_MESSAGES) buffer.shift();
+    flush();
+  };
+
+  const close = () => {
+    closed = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    socket?.close();
+    socket = null;
+  };
+
+  connect();
+
+  return { send, close };
+};
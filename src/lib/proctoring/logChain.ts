@@ -0,0 +1,91 @@
+import type { ViolationLog } from "./types";
+
+export interface ChainVerificationError {
+  sequence: number;
+  reason: string;
+}
+
+export interface ChainVerificationResult {
+  valid: boolean;
+  verifiedEntries: number;
+  errors: ChainVerificationError[];
+}
+
+export interface ExportedViolationLog {
+  sessionId: string;
+  violationLog: ViolationLog[];
+  chainLength?: number;
+  chainHead?: string;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256 = async (value: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+
+// Stable JSON with sorted keys, so the same entry always hashes the same way
+export const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// The chain starts from the session id so entries can't be replayed into another session
+export const getGenesisHash = (sessionId: string) => sha256(`protorai:${sessionId}`);
+
+export const hashViolation = (entry: ViolationLog, previousHash: string) => {
+  const { hash, ...content } = entry;
+  return sha256(`${previousHash}:${canonicalize(content)}`);
+};
+
+export const verifyViolationChain = async (
+  sessionId: string,
+  log: ViolationLog[],
+  expected: { length?: number; head?: string } = {},
+): Promise<ChainVerificationResult> => {
+  const errors: ChainVerificationError[] = [];
+  let previousHash = await getGenesisHash(sessionId);
+  let verifiedEntries = 0;
+
+  for (let index = 0; index < log.length; index++) {
+    const entry = log[index];
+
+    if (entry.sequence !== index) {
+      errors.push({ sequence: index, reason: `Expected sequence ${index}, found ${entry.sequence}` });
+    }
+    if (entry.previousHash !== previousHash) {
+      errors.push({ sequence: index, reason: 'Previous hash does not match the preceding entry' });
+    }
+    if (!entry.hash) {
+      errors.push({ sequence: index, reason: entry.unsealed ? 'Entry could not be sealed when logged' : 'Entry is missing its hash' });
+    } else if (entry.hash !== await hashViolation(entry, previousHash)) {
+      errors.push({ sequence: index, reason: 'Entry content does not match its hash' });
+    }
+
+    if (!errors.length) verifiedEntries++;
+    previousHash = entry.hash ?? previousHash;
+  }
+
+  // Truncating the tail leaves a valid chain, so check it against the recorded head
+  if (expected.length !== undefined && expected.length !== log.length) {
+    errors.push({ sequence: log.length, reason: `Expected ${expected.length} entries, found ${log.length}` });
+  }
+  if (expected.head !== undefined && log.length && expected.head !== log[log.length - 1].hash) {
+    errors.push({ sequence: log.length - 1, reason: 'Last entry does not match the recorded chain head' });
+  }
+
+  return { valid: errors.length === 0, verifiedEntries, errors };
+};
+
+// Verifies a log as written by exportViolationLog
+export const verifyExportedLog = (exported: ExportedViolationLog) =>
+  verifyViolationChain(exported.sessionId, exported.violationLog ?? [], {
+    length: exported.chainLength,
+    head: exported.chainHead,
+  });
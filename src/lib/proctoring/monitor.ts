@@ -0,0 +1,192 @@
+import type { ChatMessage, ViolationLog } from "./types";
+import type { LiveConnectionStatus } from "./liveChannel";
+
+const MONITOR_URL = "ws://localhost:3000/proctor/monitor";
+const MAX_RECONNECT_DELAY_MS = 30000;
+// Only the most recent events are kept per session to bound memory on long exams
+const MAX_TIMELINE_EVENTS = 500;
+
+export type MonitorEventType = 'violation' | 'thumbnail' | 'progress' | 'chat' | 'status';
+
+// Candidate messages relayed by the backend, tagged with the session they came from
+export interface MonitorEvent {
+  type: MonitorEventType;
+  sessionId: string;
+  sentAt: string;
+  candidateName?: string;
+  questionIndex?: number;
+  violation?: ViolationLog;
+  imageData?: string;
+  text?: string;
+  from?: ChatMessage['from'];
+  status?: LiveConnectionStatus;
+}
+
+export interface MonitoredSession {
+  sessionId: string;
+  candidateName: string;
+  connection: LiveConnectionStatus;
+  questionIndex: number;
+  violationCount: number;
+  latestSnapshot: string | null;
+  lastSeenAt: string;
+  timeline: MonitorEvent[];
+}
+
+export type MonitoredSessions = Record<string, MonitoredSession>;
+
+const authHeaders = (): HeadersInit => {
+  const token = localStorage.getItem("token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+export const fetchMonitoredSessions = async (examId: string, signal?: AbortSignal): Promise<MonitoredSessions> => {
+  const response = await fetch(`http://localhost:3000/exam/${encodeURIComponent(examId)}/sessions`, {
+    headers: authHeaders(),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load sessions (${response.status})`);
+  }
+
+  const data: { sessions?: Partial<MonitoredSession>[] } = await response.json();
+  const sessions: MonitoredSessions = {};
+
+  for (const session of data.sessions ?? []) {
+    if (!session.sessionId) continue;
+    sessions[session.sessionId] = {
+      sessionId: session.sessionId,
+      candidateName: session.candidateName ?? "Unknown candidate",
+      connection: session.connection ?? 'disconnected',
+      questionIndex: session.questionIndex ?? 0,
+      violationCount: session.violationCount ?? 0,
+      latestSnapshot: session.latestSnapshot ?? null,
+      lastSeenAt: session.lastSeenAt ?? new Date().toISOString(),
+      timeline: session.timeline ?? [],
+    };
+  }
+
+  return sessions;
+};
+
+export const applyMonitorEvent = (sessions: MonitoredSessions, event: MonitorEvent): MonitoredSessions => {
+  const previous: MonitoredSession = sessions[event.sessionId] ?? {
+    sessionId: event.sessionId,
+    candidateName: event.candidateName ?? "Unknown candidate",
+    connection: 'connected',
+    questionIndex: 0,
+    violationCount: 0,
+    latestSnapshot: null,
+    lastSeenAt: event.sentAt,
+    timeline: [],
+  };
+
+  const next: MonitoredSession = {
+    ...previous,
+    candidateName: event.candidateName ?? previous.candidateName,
+    lastSeenAt: event.sentAt,
+  };
+
+  switch (event.type) {
+    case 'violation':
+      if (event.violation?.scored !== false) next.violationCount = previous.violationCount + 1;
+      break;
+    case 'thumbnail':
+      next.latestSnapshot = event.imageData ?? previous.latestSnapshot;
+      break;
+    case 'status':
+      next.connection = event.status ?? previous.connection;
+      break;
+  }
+
+  if (event.questionIndex !== undefined) {
+    next.questionIndex = event.questionIndex;
+  }
+
+  // Thumbnails arrive every few seconds and would drown out everything else in the timeline
+  if (event.type !== 'thumbnail') {
+    next.timeline = [...previous.timeline, event].slice(-MAX_TIMELINE_EVENTS);
+  }
+
+  return { ...sessions, [event.sessionId]: next };
+};
+
+// Higher is riskier: violations dominate, a dropped connection adds to it
+export const getRiskScore = (session: MonitoredSession) =>
+  session.violationCount * 10 + (session.connection === 'connected' ? 0 : 5);
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export const getRiskLevel = (session: MonitoredSession): RiskLevel => {
+  const score = getRiskScore(session);
+  if (score >= 30) return 'high';
+  if (score >= 10) return 'medium';
+  return 'low';
+};
+
+export interface MonitorChannelOptions {
+  examId: string;
+  onEvent: (event: MonitorEvent) => void;
+  onStatusChange?: (status: LiveConnectionStatus) => void;
+}
+
+export const createMonitorChannel = ({ examId, onEvent, onStatusChange }: MonitorChannelOptions) => {
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let closed = false;
+
+  const handleMessage = (message: MessageEvent) => {
+    try {
+      const event = JSON.parse(message.data) as MonitorEvent;
+      if (event && typeof event.sessionId === 'string' && typeof event.type === 'string') {
+        onEvent({ ...event, sentAt: event.sentAt ?? new Date().toISOString() });
+      }
+    } catch {
+      console.warn('Ignoring malformed monitor message:', message.data);
+    }
+  };
+
+  const connect = () => {
+    if (closed) return;
+
+    const token = localStorage.getItem("token");
+    const params = new URLSearchParams({ examId, ...(token && { token }) });
+
+    onStatusChange?.('connecting');
+    socket = new WebSocket(`${MONITOR_URL}?${params}`);
+
+    socket.onopen = () => {
+      attempts = 0;
+      onStatusChange?.('connected');
+    };
+    socket.onmessage = handleMessage;
+    socket.onclose = () => {
+      socket = null;
+      onStatusChange?.('disconnected');
+      if (closed || reconnectTimer) return;
+      const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+      attempts++;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, delay);
+    };
+    socket.onerror = () => {
+      socket?.close();
+    };
+  };
+
+  const close = () => {
+    closed = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    socket?.close();
+    socket = null;
+  };
+
+  connect();
+
+  return { close };
+};
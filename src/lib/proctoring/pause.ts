@@ -0,0 +1,86 @@
+import { z } from "zod";
+import type { ViolationType } from "./types";
+
+export const resumeConditionSchema = z.enum(['acknowledge', 'fullscreen', 'face-visible', 'proctor-approval']);
+
+export type ResumeCondition = z.infer<typeof resumeConditionSchema>;
+
+export const RESUME_CONDITION_LABELS: Record<ResumeCondition, string> = {
+  acknowledge: 'Confirm you have read the warning',
+  fullscreen: 'Return to fullscreen',
+  'face-visible': 'Make sure only your face is clearly visible',
+  'proctor-approval': 'Wait for your proctor to resume the exam',
+};
+
+export type PauseReason = 'policy' | 'proctor';
+
+export interface ActivePause {
+  reason: PauseReason;
+  pausedAt: string;
+  // Violation that caused a policy pause
+  trigger?: ViolationType;
+  conditions: ResumeCondition[];
+  // Conditions the candidate or proctor satisfied explicitly, the rest are checked live
+  satisfied: ResumeCondition[];
+}
+
+export interface PausedInterval {
+  reason: PauseReason;
+  trigger?: ViolationType;
+  conditions: ResumeCondition[];
+  pausedAt: string;
+  resumedAt: string;
+  durationMs: number;
+}
+
+export interface LiveConditions {
+  isFullscreen: boolean;
+  faceCount: number | null;
+  // False once the face model has failed to load, so nothing will ever count faces
+  faceDetectionAvailable: boolean;
+}
+
+export const isConditionMet = (pause: ActivePause, condition: ResumeCondition, live: LiveConditions) => {
+  switch (condition) {
+    case 'fullscreen':
+      return live.isFullscreen;
+    case 'face-visible':
+      return !live.faceDetectionAvailable || live.faceCount === 1;
+    default:
+      return pause.satisfied.includes(condition);
+  }
+};
+
+export const getUnmetConditions = (pause: ActivePause | null, live: LiveConditions) =>
+  pause ? pause.conditions.filter((condition) => !isConditionMet(pause, condition, live)) : [];
+
+// A second pause while already paused only adds its conditions; the original start time is kept
+export const mergePause = (
+  current: ActivePause | null,
+  reason: PauseReason,
+  conditions: ResumeCondition[],
+  trigger?: ViolationType,
+): ActivePause => {
+  if (!current) {
+    return { reason, pausedAt: new Date().toISOString(), trigger, conditions: [...new Set(conditions)], satisfied: [] };
+  }
+
+  return {
+    ...current,
+    conditions: [...new Set([...current.conditions, ...conditions])],
+    // Anything newly required has to be satisfied again
+    satisfied: current.satisfied.filter((condition) => !conditions.includes(condition)),
+  };
+};
+
+export const closePause = (pause: ActivePause): PausedInterval => {
+  const resumedAt = new Date();
+  return {
+    reason: pause.reason,
+    trigger: pause.trigger,
+    conditions: pause.conditions,
+    pausedAt: pause.pausedAt,
+    resumedAt: resumedAt.toISOString(),
+    durationMs: resumedAt.getTime() - new Date(pause.pausedAt).getTime(),
+  };
+};
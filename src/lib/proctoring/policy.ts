@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { VIOLATION_SEVERITY, type ViolationLog, type ViolationSeverity, type ViolationType } from "./types";
+import { resumeConditionSchema } from "./pause";
+
+export type PolicyAction = 'none' | 'warn' | 'pause' | 'auto-submit' | 'invalidate';
+
+const ACTION_SEVERITY: Record<PolicyAction, number> = {
+  none: 0,
+  warn: 1,
+  pause: 2,
+  'auto-submit': 3,
+  invalidate: 4,
+};
+
+const ruleSchema = z.object({
+  // How much a single violation of this type adds to the score
+  weight: z.number().min(0).default(1),
+  // Repeats of the same type within this window are logged but not scored
+  gracePeriodMs: z.number().min(0).default(0),
+});
+
+// What the candidate has to do before a pause lifts
+const resumeConditionsSchema = z.array(resumeConditionSchema).min(1).default(['acknowledge']);
+
+const thresholdSchema = z.object({
+  score: z.number().positive(),
+  action: z.enum(['warn', 'pause', 'auto-submit', 'invalidate']),
+  // Only used by pause thresholds
+  resumeConditions: resumeConditionsSchema,
+});
+
+// Pauses straight away on a violation type, regardless of the score
+const pauseRuleSchema = z.object({
+  type: z.string(),
+  resumeConditions: resumeConditionsSchema,
+});
+
+// Multiplies a rule's weight, so a medium violation counts once
+const severityWeightsSchema = z.object({
+  low: z.number().min(0).default(0.5),
+  medium: z.number().min(0).default(1),
+  high: z.number().min(0).default(2),
+  critical: z.number().min(0).default(3),
+});
+
+export const violationPolicySchema = z.object({
+  name: z.string().default('default'),
+  rules: z.record(z.string(), ruleSchema).default({}),
+  defaultRule: ruleSchema.default({}),
+  severityWeights: severityWeightsSchema.default({}),
+  thresholds: z.array(thresholdSchema).default([]),
+  pauseOn: z.array(pauseRuleSchema).default([]),
+});
+
+export type ViolationRule = z.infer<typeof ruleSchema>;
+export type PolicyThreshold = z.infer<typeof thresholdSchema>;
+export type PauseRule = z.infer<typeof pauseRuleSchema>;
+export type ViolationPolicy = z.infer<typeof violationPolicySchema>;
+
+// Only tab switches and fullscreen exits count, as when the hook shipped: warnings
+// from the first one and the attempt is invalidated at three. The other detectors
+// are logged for review but only score when the exam's policy gives them a weight.
+export const DEFAULT_VIOLATION_POLICY: ViolationPolicy = {
+  name: 'default',
+  rules: {
+    'tab-switch': { weight: 1, gracePeriodMs: 0 },
+    'fullscreen-exit': { weight: 1, gracePeriodMs: 0 },
+  },
+  defaultRule: { weight: 0, gracePeriodMs: 0 },
+  severityWeights: { low: 0.5, medium: 1, high: 2, critical: 3 },
+  thresholds: [
+    { score: 1, action: 'warn' },
+    { score: 3, action: 'invalidate' },
+  ],
+  pauseOn: [],
+};
+
+export interface PolicyEvaluation {
+  score: number;
+  action: PolicyAction;
+  // Score at which the attempt ends (invalidated or auto-submitted)
+  limit: number | null;
+  remaining: number | null;
+}
+
+// Parses the policy supplied by the exam payload, falling back to the
+// default policy when it is missing or malformed.
+export const resolveViolationPolicy = (input: unknown): ViolationPolicy => {
+  if (input == null) return DEFAULT_VIOLATION_POLICY;
+
+  const result = violationPolicySchema.safeParse(input);
+  if (!result.success) {
+    console.warn('Invalid proctoring policy, using default:', result.error.flatten());
+    return DEFAULT_VIOLATION_POLICY;
+  }
+
+  const policy = result.data;
+  return {
+    ...policy,
+    thresholds: policy.thresholds.length
+      ? [...policy.thresholds].sort((a, b) => a.score - b.score)
+      : DEFAULT_VIOLATION_POLICY.thresholds,
+  };
+};
+
+export const getViolationRule = (policy: ViolationPolicy, type: ViolationType): ViolationRule =>
+  policy.rules[type] ?? policy.defaultRule;
+
+// Entries logged before severities existed fall back to the type's default
+export const getViolationWeight = (policy: ViolationPolicy, entry: Pick<ViolationLog, 'type' | 'severity'>) =>
+  getViolationRule(policy, entry.type).weight * policy.severityWeights[entry.severity ?? VIOLATION_SEVERITY[entry.type]];
+
+export const getPauseRule = (policy: ViolationPolicy, type: ViolationType): PauseRule | undefined =>
+  policy.pauseOn.find((rule) => rule.type === type);
+
+export const isTerminalAction = (action: PolicyAction) =>
+  action === 'auto-submit' || action === 'invalidate';
+
+export const getPolicyLimit = (policy: ViolationPolicy): number | null => {
+  const terminal = policy.thresholds.find((t) => isTerminalAction(t.action));
+  return terminal ? terminal.score : null;
+};
+
+export const scoreViolations = (policy: ViolationPolicy, log: ViolationLog[]): number => {
+  const lastCounted: Partial<Record<ViolationType, number>> = {};
+
+  return log.reduce((score, entry) => {
+    if (entry.scored === false) return score;
+
+    const rule = getViolationRule(policy, entry.type);
+    const time = new Date(entry.timestamp).getTime();
+    const previous = lastCounted[entry.type];
+
+    if (previous !== undefined && time - previous < rule.gracePeriodMs) {
+      return score;
+    }
+
+    lastCounted[entry.type] = time;
+    return score + getViolationWeight(policy, entry);
+  }, 0);
+};
+
+export const countBySeverity = (log: ViolationLog[]) =>
+  log.reduce<Record<ViolationSeverity, number>>(
+    (counts, entry) => {
+      if (entry.scored !== false) counts[entry.severity ?? VIOLATION_SEVERITY[entry.type]]++;
+      return counts;
+    },
+    { low: 0, medium: 0, high: 0, critical: 0 },
+  );
+
+export const evaluatePolicy = (policy: ViolationPolicy, log: ViolationLog[]): PolicyEvaluation => {
+  const score = scoreViolations(policy, log);
+  const action = policy.thresholds.reduce<PolicyAction>(
+    (current, threshold) =>
+      score >= threshold.score && ACTION_SEVERITY[threshold.action] > ACTION_SEVERITY[current]
+        ? threshold.action
+        : current,
+    'none',
+  );
+  const limit = getPolicyLimit(policy);
+
+  return {
+    score,
+    action,
+    limit,
+    remaining: limit === null ? null : Math.max(limit - score, 0),
+  };
+};
+
+// Severity weights produce fractional scores, shown to one decimal place
+export const formatScore = (score: number) => (Number.isInteger(score) ? `${score}` : score.toFixed(1));
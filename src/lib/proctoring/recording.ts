@@ -0,0 +1,95 @@
+export interface RecordedSegment {
+  segmentIndex: number;
+  questionIndex: number;
+  startedAt: number;
+  durationMs: number;
+  mimeType: string;
+  blob: Blob;
+}
+
+export interface SegmentRecorderOptions {
+  segmentMs: number;
+  getQuestionIndex: () => number;
+  onSegment: (segment: RecordedSegment) => void;
+}
+
+export interface SegmentRecorder {
+  start: () => void;
+  // Closes the current segment early, e.g. when the candidate moves to another question
+  split: () => void;
+  stop: () => void;
+}
+
+const MIME_CANDIDATES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && MIME_CANDIDATES.some((type) => MediaRecorder.isTypeSupported(type));
+
+// Each segment gets its own MediaRecorder so every file carries a WebM header and plays on its own
+export const createSegmentRecorder = (
+  stream: MediaStream,
+  { segmentMs, getQuestionIndex, onSegment }: SegmentRecorderOptions,
+): SegmentRecorder => {
+  const mimeType = MIME_CANDIDATES.find((type) => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+
+  let recorder: MediaRecorder | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let segmentIndex = 0;
+  let running = false;
+
+  const startSegment = () => {
+    if (!running) return;
+
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    const questionIndex = getQuestionIndex();
+    const index = segmentIndex++;
+    const current = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 500_000 });
+
+    current.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    current.onstop = () => {
+      if (!chunks.length) return;
+      onSegment({
+        segmentIndex: index,
+        questionIndex,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        mimeType,
+        blob: new Blob(chunks, { type: mimeType }),
+      });
+    };
+
+    current.start();
+    recorder = current;
+    timer = setTimeout(rotate, segmentMs);
+  };
+
+  const finishSegment = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    recorder = null;
+  };
+
+  const rotate = () => {
+    finishSegment();
+    startSegment();
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      startSegment();
+    },
+    split: () => {
+      if (running) rotate();
+    },
+    stop: () => {
+      running = false;
+      finishSegment();
+    },
+  };
+};
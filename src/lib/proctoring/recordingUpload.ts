@@ -0,0 +1,172 @@
+import { getProctoringDB } from "./db";
+import type { RecordedSegment } from "./recording";
+import { getBackoff, isRetryable } from "./uploadQueue";
+
+const RECORDING_URL = "http://localhost:3000/exam/recording";
+const CHUNK_SIZE = 256 * 1024;
+
+export type SegmentKind = 'exam' | 'room-scan';
+
+export interface StoredSegment extends RecordedSegment {
+  id: string;
+  sessionId: string;
+  kind: SegmentKind;
+  size: number;
+  // Assigned by the backend on the first attempt and reused to resume
+  uploadId?: string;
+  attempts?: number;
+  nextAttemptAt?: number;
+}
+
+// Keeps the status so permanent rejections can be told apart from outages
+const backendError = (status: number) => Object.assign(new Error(`Backend error: ${status}`), { status });
+
+const getErrorStatus = (error: unknown): number | null =>
+  typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : null;
+
+let uploading = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const authHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem("token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+const initUpload = async (segment: StoredSegment) => {
+  const response = await fetch(`${RECORDING_URL}/init`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({
+      sessionId: segment.sessionId,
+      kind: segment.kind ?? 'exam',
+      segmentIndex: segment.segmentIndex,
+      questionIndex: segment.questionIndex,
+      startedAt: new Date(segment.startedAt).toISOString(),
+      durationMs: segment.durationMs,
+      mimeType: segment.mimeType,
+      size: segment.size,
+    }),
+  });
+  if (!response.ok) throw backendError(response.status);
+
+  const data = await response.json();
+  return data.uploadId as string;
+};
+
+// Asks the backend how much of an interrupted upload it already has
+const getReceivedBytes = async (uploadId: string) => {
+  const response = await fetch(`${RECORDING_URL}/${uploadId}`, { headers: authHeaders() });
+  if (response.status === 404) return null;
+  if (!response.ok) throw backendError(response.status);
+
+  const data = await response.json();
+  return Number(data.receivedBytes) || 0;
+};
+
+const uploadSegment = async (segment: StoredSegment) => {
+  const db = await getProctoringDB();
+
+  let offset = 0;
+  if (segment.uploadId) {
+    const received = await getReceivedBytes(segment.uploadId);
+    if (received === null) segment = { ...segment, uploadId: undefined };
+    else offset = received;
+  }
+
+  if (!segment.uploadId) {
+    segment = { ...segment, uploadId: await initUpload(segment) };
+    await db.put("recordings", segment);
+  }
+
+  while (offset < segment.size) {
+    const end = Math.min(offset + CHUNK_SIZE, segment.size);
+    const response = await fetch(`${RECORDING_URL}/${segment.uploadId}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Range": `bytes ${offset}-${end - 1}/${segment.size}`,
+        ...authHeaders(),
+      },
+      body: segment.blob.slice(offset, end),
+    });
+    if (!response.ok) throw backendError(response.status);
+    offset = end;
+  }
+
+  // The backend keeps the indexed copy; the local one is only needed until it arrives
+  await db.delete("recordings", segment.id);
+};
+
+const scheduleRetry = (delayMs: number) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    uploadPendingSegments();
+  }, Math.max(delayMs, 0));
+};
+
+export const uploadPendingSegments = async () => {
+  if (uploading || !navigator.onLine) return;
+  uploading = true;
+
+  try {
+    const db = await getProctoringDB();
+    const pending = await db.getAll("recordings");
+    pending.sort((a, b) => a.startedAt - b.startedAt);
+
+    let retryAt: number | null = null;
+
+    for (const segment of pending) {
+      if ((segment.nextAttemptAt ?? 0) > Date.now()) continue;
+
+      try {
+        await uploadSegment(segment);
+      } catch (error) {
+        const status = getErrorStatus(error);
+
+        // A segment the backend refuses would otherwise hold up every later one for good
+        if (status !== null && !isRetryable(status)) {
+          console.error('Dropping recording segment rejected by backend:', error);
+          await db.delete("recordings", segment.id);
+          continue;
+        }
+
+        console.error('Error uploading recording segment:', error);
+        // Re-read so an uploadId saved during the failed attempt is kept
+        const latest = (await db.get("recordings", segment.id)) ?? segment;
+        const attempts = (latest.attempts ?? 0) + 1;
+        const nextAttemptAt = Date.now() + getBackoff(attempts);
+        await db.put("recordings", { ...latest, attempts, nextAttemptAt });
+
+        // Connectivity is gone; the rest would fail the same way
+        if (status === null) {
+          retryAt = nextAttemptAt;
+          break;
+        }
+      }
+    }
+
+    if (retryAt === null) {
+      const remaining = await db.getAll("recordings");
+      if (remaining.length) retryAt = Math.min(...remaining.map((segment) => segment.nextAttemptAt ?? 0));
+    }
+    if (retryAt !== null) scheduleRetry(retryAt - Date.now());
+  } catch (error) {
+    console.error('Error uploading recording segment:', error);
+    scheduleRetry(getBackoff(1));
+  } finally {
+    uploading = false;
+  }
+};
+
+export const saveSegment = async (sessionId: string, segment: RecordedSegment, kind: SegmentKind = 'exam') => {
+  const db = await getProctoringDB();
+  await db.put("recordings", {
+    ...segment,
+    id: kind === 'exam' ? `${sessionId}:${segment.segmentIndex}` : `${sessionId}:${kind}`,
+    sessionId,
+    kind,
+    size: segment.blob.size,
+  });
+  uploadPendingSegments();
+};
@@ -0,0 +1,165 @@
+import { VIOLATION_LABELS, type ActivityEvent, type ViolationLog } from "./types";
+import { getScoredViolations, type SessionSnapshot } from "./review";
+
+export type ReplayTrack = 'navigation' | 'answers' | 'violations' | 'audio' | 'snapshots';
+
+export const REPLAY_TRACK_LABELS: Record<ReplayTrack, string> = {
+  navigation: 'Navigation',
+  answers: 'Answers',
+  violations: 'Violations',
+  audio: 'Audio',
+  snapshots: 'Snapshots',
+};
+
+export interface ReplayEvent {
+  track: ReplayTrack;
+  timestamp: string;
+  // Milliseconds since the attempt started
+  offsetMs: number;
+  label: string;
+  questionIndex?: number;
+  answer?: string;
+  durationMs?: number;
+  imageData?: string;
+}
+
+export interface SessionReplay {
+  sessionId: string;
+  startedAt: string;
+  durationMs: number;
+  events: ReplayEvent[];
+}
+
+export interface ReplaySource {
+  sessionId: string;
+  startedAt?: string;
+  endedAt?: string;
+  violations?: ViolationLog[];
+  activity?: ActivityEvent[];
+  snapshots?: SessionSnapshot[];
+}
+
+export interface ReplayState {
+  questionIndex: number;
+  answers: Record<number, string>;
+  snapshot: SessionSnapshot | null;
+  violationCount: number;
+}
+
+const AUDIO_VIOLATIONS = new Set<ViolationLog['type']>(['speech-detected', 'loud-noise']);
+
+export const buildSessionReplay = ({ sessionId, startedAt, endedAt, violations: logged = [], activity = [], snapshots = [] }: ReplaySource): SessionReplay => {
+  const violations = getScoredViolations(logged);
+  const timestamps = [
+    ...violations.map((v) => v.timestamp),
+    ...activity.map((a) => a.timestamp),
+    ...snapshots.map((s) => s.timestamp),
+  ].map((t) => new Date(t).getTime());
+
+  const start = startedAt ? new Date(startedAt).getTime() : Math.min(...timestamps, Date.now());
+  const end = endedAt ? new Date(endedAt).getTime() : Math.max(...timestamps, start);
+  const offset = (timestamp: string) => Math.max(0, new Date(timestamp).getTime() - start);
+
+  const events: ReplayEvent[] = [
+    ...activity.map((a): ReplayEvent => ({
+      track: a.type === 'navigation' ? 'navigation' : 'answers',
+      timestamp: a.timestamp,
+      offsetMs: offset(a.timestamp),
+      label: a.type === 'navigation' ? `Question ${a.questionIndex + 1}` : `Q${a.questionIndex + 1}: ${a.answer ?? ""}`,
+      questionIndex: a.questionIndex,
+      answer: a.answer,
+    })),
+    ...violations.map((v): ReplayEvent => ({
+      track: AUDIO_VIOLATIONS.has(v.type) ? 'audio' : 'violations',
+      timestamp: v.timestamp,
+      offsetMs: offset(v.timestamp),
+      label: VIOLATION_LABELS[v.type] ?? v.type,
+      durationMs: v.durationMs,
+    })),
+    ...snapshots.map((s): ReplayEvent => ({
+      track: 'snapshots',
+      timestamp: s.timestamp,
+      offsetMs: offset(s.timestamp),
+      label: "Snapshot",
+      questionIndex: s.questionIndex,
+      imageData: s.imageData,
+    })),
+  ].sort((a, b) => a.offsetMs - b.offsetMs);
+
+  return {
+    sessionId,
+    startedAt: new Date(start).toISOString(),
+    durationMs: Math.max(end - start, events[events.length - 1]?.offsetMs ?? 0),
+    events,
+  };
+};
+
+// Reconstructs what the candidate was looking at and had answered at a point in the attempt
+export const getReplayStateAt = (replay: SessionReplay, offsetMs: number): ReplayState => {
+  const state: ReplayState = { questionIndex: 0, answers: {}, snapshot: null, violationCount: 0 };
+
+  for (const event of replay.events) {
+    if (event.offsetMs > offsetMs) break;
+
+    switch (event.track) {
+      case 'navigation':
+        state.questionIndex = event.questionIndex ?? state.questionIndex;
+        break;
+      case 'answers':
+        if (event.questionIndex !== undefined && event.answer !== undefined) {
+          state.answers = { ...state.answers, [event.questionIndex]: event.answer };
+        }
+        break;
+      case 'snapshots':
+        state.snapshot = event.imageData
+          ? { timestamp: event.timestamp, questionIndex: event.questionIndex, imageData: event.imageData }
+          : state.snapshot;
+        break;
+      default:
+        state.violationCount++;
+    }
+  }
+
+  return state;
+};
+
+export const fetchSessionReplay = async (sessionId: string, signal?: AbortSignal): Promise<SessionReplay> => {
+  const token = localStorage.getItem("token");
+  const response = await fetch(`http://localhost:3000/exam/replay/${encodeURIComponent(sessionId)}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load session replay (${response.status})`);
+  }
+
+  const data: Omit<ReplaySource, 'sessionId'> = await response.json();
+  return buildSessionReplay({ ...data, sessionId });
+};
+
+// Falls back to the log exported to this browser on submission, which carries no snapshots
+export const loadLocalReplay = (sessionId: string): SessionReplay | null => {
+  const stored = localStorage.getItem(`violation-log-${sessionId}`);
+  if (!stored) return null;
+
+  try {
+    const exported = JSON.parse(stored);
+    return buildSessionReplay({
+      sessionId,
+      startedAt: exported.startedAt,
+      endedAt: exported.timestamp,
+      violations: exported.violationLog,
+      activity: exported.activityLog,
+    });
+  } catch {
+    return null;
+  }
+};
+
+export const formatOffset = (offsetMs: number) => {
+  const totalSeconds = Math.floor(offsetMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
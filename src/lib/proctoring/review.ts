@@ -0,0 +1,132 @@
+import type { ViolationLog } from "./types";
+
+export type ReviewStatus = 'pending' | 'confirmed' | 'dismissed' | 'needs-discussion';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Pending review',
+  confirmed: 'Confirmed',
+  dismissed: 'Dismissed',
+  'needs-discussion': 'Needs discussion',
+};
+
+// Decisions are keyed by the violation's position in the session's hash chain
+export interface ReviewDecision {
+  sequence: number;
+  status: ReviewStatus;
+  comment: string;
+  reviewer?: string;
+  decidedAt?: string;
+}
+
+export interface SessionSnapshot {
+  snapshotId?: string;
+  timestamp: string;
+  questionIndex?: number;
+  imageData: string;
+  screenImageData?: string;
+}
+
+export interface FlaggedSession {
+  sessionId: string;
+  candidateName: string;
+  violationCount: number;
+  pendingCount: number;
+  submittedAt?: string;
+}
+
+export interface SessionReview {
+  sessionId: string;
+  candidateName: string;
+  violations: ViolationLog[];
+  snapshots: SessionSnapshot[];
+  decisions: Record<number, ReviewDecision>;
+}
+
+const authHeaders = (): HeadersInit => {
+  const token = localStorage.getItem("token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+export const fetchFlaggedSessions = async (examId: string, signal?: AbortSignal): Promise<FlaggedSession[]> => {
+  const response = await fetch(`http://localhost:3000/exam/${encodeURIComponent(examId)}/review`, {
+    headers: authHeaders(),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load flagged sessions (${response.status})`);
+  }
+
+  const data: { sessions?: FlaggedSession[] } = await response.json();
+  return data.sessions ?? [];
+};
+
+export const fetchSessionReview = async (sessionId: string, signal?: AbortSignal): Promise<SessionReview> => {
+  const response = await fetch(`http://localhost:3000/exam/review/${encodeURIComponent(sessionId)}`, {
+    headers: authHeaders(),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load session review (${response.status})`);
+  }
+
+  const data: Partial<Omit<SessionReview, 'decisions'>> & { decisions?: ReviewDecision[] } = await response.json();
+  const decisions: Record<number, ReviewDecision> = {};
+  for (const decision of data.decisions ?? []) {
+    decisions[decision.sequence] = decision;
+  }
+
+  return {
+    sessionId,
+    candidateName: data.candidateName ?? "Unknown candidate",
+    violations: getScoredViolations([...(data.violations ?? [])].sort((a, b) => a.sequence - b.sequence)),
+    snapshots: [...(data.snapshots ?? [])].sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    decisions,
+  };
+};
+
+export const saveReviewDecision = async (sessionId: string, decision: ReviewDecision): Promise<ReviewDecision> => {
+  const response = await fetch(
+    `http://localhost:3000/exam/review/${encodeURIComponent(sessionId)}/decisions/${decision.sequence}`,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ status: decision.status, comment: decision.comment }),
+    },
+  );
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `Failed to save decision (${response.status})`);
+  }
+
+  return { ...decision, ...data };
+};
+
+// Unscored entries are left out; an episode's end only adds its duration to the entry logged when it started
+export const getScoredViolations = (violations: ViolationLog[]) => {
+  const scored = violations.filter((v) => v.scored !== false);
+  const ends = violations.filter((v) => v.scored === false && v.metadata?.episode === 'end');
+
+  return scored.map((violation) => {
+    const end = ends.find((e) => e.type === violation.type && e.timestamp === violation.timestamp);
+    return end ? { ...violation, endedAt: end.endedAt, durationMs: end.durationMs } : violation;
+  });
+};
+
+// Snapshots closest in time to the violation, in chronological order
+export const findNearestSnapshots = (snapshots: SessionSnapshot[], timestamp: string, count = 3) => {
+  const target = new Date(timestamp).getTime();
+  return [...snapshots]
+    .sort((a, b) => Math.abs(new Date(a.timestamp).getTime() - target) - Math.abs(new Date(b.timestamp).getTime() - target))
+    .slice(0, count)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+// Snapshots the violation references as evidence, or the nearest ones for entries logged without any
+export const getEvidenceSnapshots = (snapshots: SessionSnapshot[], violation: ViolationLog) => {
+  const evidence = violation.evidence ?? [];
+  const referenced = snapshots.filter((snapshot) => snapshot.snapshotId && evidence.includes(snapshot.snapshotId));
+  return referenced.length ? referenced : findNearestSnapshots(snapshots, violation.timestamp);
+};
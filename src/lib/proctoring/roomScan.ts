@@ -0,0 +1,105 @@
+import { isRecordingSupported } from "./recording";
+
+export type RoomScanStatus = 'pending' | 'recording' | 'passed' | 'failed';
+
+export interface RoomScanState {
+  status: RoomScanStatus;
+  // 0 to 1 while recording
+  progress: number;
+  distinctFrames: number;
+  message: string | null;
+}
+
+export interface RoomScanResult {
+  blob: Blob;
+  mimeType: string;
+  startedAt: number;
+  durationMs: number;
+  distinctFrames: number;
+}
+
+export const ROOM_SCAN_DURATION_MS = 20000;
+// Enough different views that the camera must have actually been panned around
+export const MIN_DISTINCT_FRAMES = 8;
+
+const SAMPLE_INTERVAL_MS = 250;
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+// Mean per-pixel difference (0-1) for two frames to count as different views
+const DISTINCT_FRAME_THRESHOLD = 0.12;
+
+// A tiny greyscale thumbnail that is cheap to compare between frames
+export const getFrameSignature = (video: HTMLVideoElement, canvas: HTMLCanvasElement) => {
+  if (video.readyState !== 4) return null;
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  context.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+  const { data } = context.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const signature = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    signature[i] = Math.round(data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114);
+  }
+  return signature;
+};
+
+export const getFrameDifference = (a: Uint8Array, b: Uint8Array) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length / 255;
+};
+
+export const recordRoomScan = (
+  stream: MediaStream,
+  video: HTMLVideoElement,
+  onProgress: (progress: number, distinctFrames: number) => void,
+  durationMs = ROOM_SCAN_DURATION_MS,
+) =>
+  new Promise<RoomScanResult>((resolve, reject) => {
+    if (!isRecordingSupported()) {
+      reject(new Error("Your browser can't record video. Please use a recent version of Chrome, Edge or Firefox."));
+      return;
+    }
+
+    const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp8') ? 'video/webm;codecs=vp8' : 'video/webm';
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 750_000 });
+    const chunks: Blob[] = [];
+    const canvas = document.createElement('canvas');
+    const distinct: Uint8Array[] = [];
+    const startedAt = Date.now();
+
+    const sample = setInterval(() => {
+      const signature = getFrameSignature(video, canvas);
+      if (signature && distinct.every((frame) => getFrameDifference(frame, signature) > DISTINCT_FRAME_THRESHOLD)) {
+        distinct.push(signature);
+      }
+      onProgress(Math.min((Date.now() - startedAt) / durationMs, 1), distinct.length);
+    }, SAMPLE_INTERVAL_MS);
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onerror = () => {
+      clearInterval(sample);
+      reject(new Error("Recording failed. Please try again."));
+    };
+    recorder.onstop = () => {
+      clearInterval(sample);
+      resolve({
+        blob: new Blob(chunks, { type: mimeType }),
+        mimeType,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        distinctFrames: distinct.length,
+      });
+    };
+
+    recorder.start();
+    setTimeout(() => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    }, durationMs);
+  });
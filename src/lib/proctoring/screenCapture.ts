@@ -0,0 +1,70 @@
+// Window Management API, not yet in the DOM typings
+interface ScreenDetails extends EventTarget {
+  screens: unknown[];
+}
+
+type ExtendedScreen = Screen & EventTarget & { isExtended?: boolean };
+type WindowWithScreenDetails = Window & { getScreenDetails?: () => Promise<ScreenDetails> };
+
+export const isScreenShareSupported = () => !!navigator.mediaDevices?.getDisplayMedia;
+
+// Only a whole monitor is accepted; sharing a single tab or window leaves the rest of the desktop unseen
+export const requestMonitorShare = async () => {
+  if (!isScreenShareSupported()) {
+    throw new Error("Your browser doesn't support screen sharing.");
+  }
+
+  const stream = await navigator.mediaDevices.getDisplayMedia({
+    video: { displaySurface: 'monitor' },
+    audio: false,
+  });
+
+  const [track] = stream.getVideoTracks();
+  const surface = track?.getSettings().displaySurface;
+
+  if (surface && surface !== 'monitor') {
+    stream.getTracks().forEach((t) => t.stop());
+    throw new Error("Please share your entire screen, not a window or browser tab.");
+  }
+
+  return stream;
+};
+
+// Reports the number of connected screens now and whenever it changes
+export const watchScreenCount = async (onChange: (count: number) => void) => {
+  const getScreenDetails = (window as WindowWithScreenDetails).getScreenDetails;
+
+  if (getScreenDetails) {
+    try {
+      const details = await getScreenDetails.call(window);
+      const handleScreensChange = () => onChange(details.screens.length);
+      handleScreensChange();
+      details.addEventListener('screenschange', handleScreensChange);
+      return () => details.removeEventListener('screenschange', handleScreensChange);
+    } catch (error) {
+      console.warn("Window management permission denied, falling back to screen.isExtended:", error);
+    }
+  }
+
+  const screen = window.screen as ExtendedScreen;
+  if (screen.isExtended === undefined) return () => undefined;
+
+  const handleChange = () => onChange(screen.isExtended ? 2 : 1);
+  handleChange();
+  screen.addEventListener('change', handleChange);
+  return () => screen.removeEventListener('change', handleChange);
+};
+
+export const captureFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement, maxWidth = 1280) => {
+  if (video.readyState !== 4) return null;
+
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const scale = Math.min(1, maxWidth / (video.videoWidth || maxWidth));
+  canvas.width = Math.round((video.videoWidth || 1280) * scale);
+  canvas.height = Math.round((video.videoHeight || 720) * scale);
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/jpeg', 0.6);
+};
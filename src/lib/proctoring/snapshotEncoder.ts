@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { encodeBitmap, type EncodeOptions, type EncodedImage } from "./imageEncoding";
+import type { EncodeRequest, EncodeResponse } from "./snapshotEncoder.worker";
+
+export const snapshotEncodingSchema = z.object({
+  cameraMaxWidth: z.number().int().min(160).default(640),
+  cameraMaxHeight: z.number().int().min(120).default(480),
+  screenMaxWidth: z.number().int().min(320).default(1280),
+  screenMaxHeight: z.number().int().min(240).default(720),
+  // WebP falls back to JPEG in browsers that can't encode it
+  format: z.enum(['webp', 'jpeg']).default('webp'),
+  quality: z.number().min(0.1).max(1).default(0.7),
+});
+
+export type SnapshotEncoding = z.infer<typeof snapshotEncodingSchema>;
+
+export const DEFAULT_SNAPSHOT_ENCODING: SnapshotEncoding = snapshotEncodingSchema.parse({});
+
+export const resolveSnapshotEncoding = (input: unknown): SnapshotEncoding => {
+  if (input == null) return DEFAULT_SNAPSHOT_ENCODING;
+
+  const result = snapshotEncodingSchema.safeParse(input);
+  if (!result.success) {
+    console.warn('Invalid snapshot encoding, using default:', result.error.flatten());
+    return DEFAULT_SNAPSHOT_ENCODING;
+  }
+  return result.data;
+};
+
+export type SnapshotSource = 'camera' | 'screen';
+
+// What each source used to be sent as: full-resolution camera frames and screens capped at 1280px
+const BASELINES: Record<SnapshotSource, Omit<EncodeOptions['baseline'], 'measure'>> = {
+  camera: { maxWidth: Infinity, quality: 0.7 },
+  screen: { maxWidth: 1280, quality: 0.6 },
+};
+
+export const getEncodeOptions = (
+  encoding: SnapshotEncoding,
+  source: SnapshotSource,
+  measureBaseline = false,
+): EncodeOptions => ({
+  maxWidth: source === 'camera' ? encoding.cameraMaxWidth : encoding.screenMaxWidth,
+  maxHeight: source === 'camera' ? encoding.cameraMaxHeight : encoding.screenMaxHeight,
+  format: encoding.format,
+  quality: encoding.quality,
+  baseline: { ...BASELINES[source], measure: measureBaseline },
+});
+
+export const getFileExtension = (blob: Blob) => (blob.type === 'image/webp' ? 'webp' : 'jpg');
+
+const canUseWorker = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// Encodes off the main thread when it can, so snapshots never stall the exam UI
+export const createSnapshotEncoder = (encoding: SnapshotEncoding = DEFAULT_SNAPSHOT_ENCODING) => {
+  const pending = new Map<number, { resolve: (result: EncodedImage) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+  let worker: Worker | null = null;
+
+  const rejectPending = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  if (canUseWorker()) {
+    try {
+      worker = new Worker(new URL("./snapshotEncoder.worker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = ({ data }: MessageEvent<EncodeResponse>) => {
+        const request = pending.get(data.id);
+        if (!request) return;
+        pending.delete(data.id);
+        if ('error' in data) request.reject(new Error(data.error));
+        else request.resolve(data.result);
+      };
+      // A worker that fails to load is dropped and encoding carries on in the page
+      worker.onerror = (event) => {
+        console.warn('Snapshot encoder worker failed, encoding on the main thread:', event.message);
+        worker?.terminate();
+        worker = null;
+        rejectPending(new Error("Snapshot encoder worker failed"));
+      };
+    } catch (error) {
+      console.warn('Snapshot encoder worker unavailable:', error);
+      worker = null;
+    }
+  }
+
+  // The old encoding is measured once per source and frame size, then reused for the savings estimate
+  const baselines = new Map<string, number>();
+
+  const encodeBitmapOnce = (bitmap: ImageBitmap, options: EncodeOptions): Promise<EncodedImage> => {
+    if (!worker) {
+      return encodeBitmap(bitmap, options).finally(() => bitmap.close());
+    }
+
+    const id = nextId++;
+    const target = worker;
+    return new Promise<EncodedImage>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      const request: EncodeRequest = { id, bitmap, options };
+      target.postMessage(request, [bitmap]);
+    });
+  };
+
+  const encode = async (
+    source: HTMLCanvasElement | HTMLVideoElement,
+    kind: SnapshotSource,
+  ): Promise<EncodedImage & { baselineBytes: number }> => {
+    const bitmap = await createImageBitmap(source);
+    const key = `${kind}:${bitmap.width}x${bitmap.height}`;
+    const known = baselines.get(key);
+
+    const result = await encodeBitmapOnce(bitmap, getEncodeOptions(encoding, kind, known === undefined));
+    if (result.baselineBytes !== null) baselines.set(key, result.baselineBytes);
+
+    return { ...result, baselineBytes: result.baselineBytes ?? known ?? result.blob.size };
+  };
+
+  return {
+    encode,
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      rejectPending(new Error("Snapshot encoder disposed"));
+    },
+  };
+};
+
+export type SnapshotEncoder = ReturnType<typeof createSnapshotEncoder>;
@@ -0,0 +1,27 @@
+import { encodeBitmap, type EncodeOptions, type EncodedImage } from "./imageEncoding";
+
+export interface EncodeRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  options: EncodeOptions;
+}
+
+export type EncodeResponse =
+  | { id: number; result: EncodedImage }
+  | { id: number; error: string };
+
+// The DOM typings describe a window, not a dedicated worker scope
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<EncodeRequest>) => void) | null;
+  postMessage: (message: EncodeResponse) => void;
+};
+
+scope.onmessage = async ({ data: { id, bitmap, options } }) => {
+  try {
+    scope.postMessage({ id, result: await encodeBitmap(bitmap, options) });
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,65 @@
+import type { PolicyAction } from "./policy";
+import { enqueueUpload } from "./uploadQueue";
+
+export type SubmissionOutcome = 'completed' | 'auto-submitted' | 'invalidated' | 'terminated';
+
+export const SUBMISSION_OUTCOME_LABELS: Record<SubmissionOutcome, string> = {
+  completed: 'Quiz Completed',
+  'auto-submitted': 'Attempt Auto-Submitted',
+  invalidated: 'Attempt Invalidated',
+  terminated: 'Attempt Terminated',
+};
+
+export interface AttemptSubmission {
+  sessionId: string;
+  outcome: SubmissionOutcome;
+  // Invalidated attempts are still delivered so instructors can review them
+  invalidated: boolean;
+  reason: string | null;
+  answers: Record<number, string>;
+  answeredCount: number;
+  totalQuestions: number;
+  score: number;
+  submittedAt: string;
+}
+
+const SUBMIT_URL = "http://localhost:3000/exam/Submit";
+
+export const isInvalidatedOutcome = (outcome: SubmissionOutcome) =>
+  outcome === 'invalidated' || outcome === 'terminated';
+
+// The outcome that should end the attempt right now without the candidate pressing submit
+export const getForcedOutcome = ({
+  policyAction,
+  terminated,
+}: {
+  policyAction?: PolicyAction;
+  terminated: boolean;
+}): SubmissionOutcome | null => {
+  if (terminated) return 'terminated';
+  if (policyAction === 'invalidate') return 'invalidated';
+  if (policyAction === 'auto-submit') return 'auto-submitted';
+  return null;
+};
+
+export const getOutcomeReason = (outcome: SubmissionOutcome, detail?: string) => {
+  switch (outcome) {
+    case 'terminated':
+      return detail ?? "Your attempt was ended by the proctor.";
+    case 'invalidated':
+      return `Your violation score reached the limit${detail ? ` of ${detail}` : ""}, so this attempt has been invalidated.`;
+    case 'auto-submitted':
+      return `Your violation score reached the limit${detail ? ` of ${detail}` : ""}, so your answers were submitted automatically.`;
+    default:
+      return null;
+  }
+};
+
+// Queued like every other proctoring upload so a dropped connection cannot lose the attempt
+export const submitAttempt = (submission: AttemptSubmission) =>
+  enqueueUpload({
+    kind: 'submission',
+    sessionId: submission.sessionId,
+    url: SUBMIT_URL,
+    body: submission,
+  });
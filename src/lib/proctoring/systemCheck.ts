@@ -0,0 +1,152 @@
+export type SystemCheckId = 'browser' | 'fullscreen' | 'camera' | 'microphone' | 'bandwidth' | 'clock';
+
+export type SystemCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface SystemCheckResult {
+  id: SystemCheckId;
+  label: string;
+  status: SystemCheckStatus;
+  detail: string;
+  value?: number;
+}
+
+export interface SystemCheckReport {
+  createdAt: string;
+  passed: boolean;
+  userAgent: string;
+  screen: { width: number; height: number; pixelRatio: number };
+  checks: SystemCheckResult[];
+}
+
+const STORAGE_KEY = "system-check-report";
+const CHECK_URL = "http://localhost:3000/exam/SystemCheck";
+// A passing report is only trusted for this long before the check must be repeated
+const REPORT_MAX_AGE_MS = 60 * 60 * 1000;
+
+const MIN_UPLOAD_KBPS = 256;
+const WARN_UPLOAD_KBPS = 1024;
+const MAX_CLOCK_SKEW_MS = 30000;
+const BANDWIDTH_SAMPLE_BYTES = 512 * 1024;
+
+const authHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem("token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+export const checkBrowser = (): SystemCheckResult => {
+  const required: [string, boolean][] = [
+    ['camera & microphone', !!navigator.mediaDevices?.getUserMedia],
+    ['Web Audio', typeof AudioContext !== 'undefined'],
+    ['IndexedDB', typeof indexedDB !== 'undefined'],
+    ['WebCrypto', !!crypto?.subtle],
+  ];
+  const optional: [string, boolean][] = [
+    ['video recording', typeof MediaRecorder !== 'undefined'],
+    ['screen sharing', !!navigator.mediaDevices?.getDisplayMedia],
+  ];
+
+  const missing = required.filter(([, supported]) => !supported).map(([name]) => name);
+  const missingOptional = optional.filter(([, supported]) => !supported).map(([name]) => name);
+
+  if (missing.length) {
+    return { id: 'browser', label: 'Browser compatibility', status: 'fail', detail: `Missing support for ${missing.join(', ')}` };
+  }
+  if (missingOptional.length) {
+    return { id: 'browser', label: 'Browser compatibility', status: 'warn', detail: `Missing support for ${missingOptional.join(', ')}` };
+  }
+  return { id: 'browser', label: 'Browser compatibility', status: 'pass', detail: 'All required features are supported' };
+};
+
+export const checkFullscreen = (): SystemCheckResult =>
+  document.fullscreenEnabled && !!document.documentElement.requestFullscreen
+    ? { id: 'fullscreen', label: 'Fullscreen support', status: 'pass', detail: 'Fullscreen mode is available' }
+    : { id: 'fullscreen', label: 'Fullscreen support', status: 'fail', detail: 'Fullscreen mode is blocked or unsupported' };
+
+export const measureUploadBandwidth = async (): Promise<SystemCheckResult> => {
+  const label = 'Upload bandwidth';
+
+  try {
+    const sample = new Uint8Array(BANDWIDTH_SAMPLE_BYTES);
+    // Random bytes so compression on the way can't inflate the result
+    for (let offset = 0; offset < sample.length; offset += 65536) {
+      crypto.getRandomValues(sample.subarray(offset, offset + 65536));
+    }
+
+    const started = performance.now();
+    const response = await fetch(`${CHECK_URL}/bandwidth`, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream", ...authHeaders() },
+      body: sample,
+    });
+    const elapsedMs = performance.now() - started;
+
+    if (!response.ok) throw new Error(`Backend error: ${response.status}`);
+
+    const kbps = Math.round((BANDWIDTH_SAMPLE_BYTES * 8) / elapsedMs);
+    const status: SystemCheckStatus = kbps < MIN_UPLOAD_KBPS ? 'fail' : kbps < WARN_UPLOAD_KBPS ? 'warn' : 'pass';
+    return { id: 'bandwidth', label, status, detail: `${kbps} kbps to the proctoring server`, value: kbps };
+  } catch (error) {
+    console.error('Error measuring upload bandwidth:', error);
+    // Without a measurement there is nothing to fail the candidate on
+    return { id: 'bandwidth', label, status: 'warn', detail: 'Could not measure upload bandwidth to the proctoring server' };
+  }
+};
+
+export const measureClockSkew = async (): Promise<SystemCheckResult> => {
+  const label = 'Clock synchronisation';
+
+  try {
+    const sentAt = Date.now();
+    const response = await fetch(`${CHECK_URL}/time`, { headers: authHeaders() });
+    const receivedAt = Date.now();
+
+    if (!response.ok) throw new Error(`Backend error: ${response.status}`);
+
+    const data = await response.json();
+    const serverTime = new Date(data.serverTime).getTime();
+    if (Number.isNaN(serverTime)) throw new Error('Invalid server time');
+
+    // Assume the request and response legs took equally long
+    const skewMs = Math.round(serverTime - (sentAt + receivedAt) / 2);
+    const status: SystemCheckStatus = Math.abs(skewMs) > MAX_CLOCK_SKEW_MS ? 'fail' : 'pass';
+    return {
+      id: 'clock',
+      label,
+      status,
+      detail: status === 'pass'
+        ? `Clock is within ${Math.abs(Math.round(skewMs / 1000))}s of the server`
+        : `Clock is off by ${Math.round(skewMs / 1000)}s; please sync your system time`,
+      value: skewMs,
+    };
+  } catch (error) {
+    console.error('Error measuring clock skew:', error);
+    return { id: 'clock', label, status: 'warn', detail: 'Could not compare with the server clock' };
+  }
+};
+
+export const buildSystemCheckReport = (checks: SystemCheckResult[]): SystemCheckReport => ({
+  createdAt: new Date().toISOString(),
+  passed: checks.every((check) => check.status !== 'fail'),
+  userAgent: navigator.userAgent,
+  screen: { width: window.screen.width, height: window.screen.height, pixelRatio: window.devicePixelRatio },
+  checks,
+});
+
+export const saveSystemCheckReport = (report: SystemCheckReport) => {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(report));
+};
+
+export const loadSystemCheckReport = (): SystemCheckReport | null => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const report: SystemCheckReport = JSON.parse(stored);
+    const age = Date.now() - new Date(report.createdAt).getTime();
+    return age <= REPORT_MAX_AGE_MS ? report : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearSystemCheckReport = () => sessionStorage.removeItem(STORAGE_KEY);
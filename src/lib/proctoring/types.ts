@@ -0,0 +1,104 @@
+export type ViolationType =
+  | 'tab-switch'
+  | 'fullscreen-exit'
+  | 'no-face'
+  | 'multiple-faces'
+  | 'looking-away'
+  | 'speech-detected'
+  | 'loud-noise'
+  | 'screen-share-stopped'
+  | 'multiple-screens'
+  | 'identity-mismatch'
+  | 'blocked-shortcut'
+  | 'devtools-open'
+  | 'window-blur'
+  | 'idle'
+  | 'virtual-camera'
+  | 'device-change'
+  | 'frozen-video'
+  // Raised by institution-specific detectors, which name themselves in metadata.detector
+  | 'custom';
+
+export type ViolationSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ViolationLog {
+  type: ViolationType;
+  severity: ViolationSeverity;
+  timestamp: string;
+  // Position in the session's hash chain, see logChain.ts
+  sequence: number;
+  previousHash?: string;
+  hash?: string;
+  // Set when hashing failed; the entry is still logged and uploaded, outside the chain
+  unsealed?: boolean;
+  // Episodes such as focus loss are logged when they end, timestamp marks their start
+  endedAt?: string;
+  durationMs?: number;
+  questionIndex?: number;
+  // IDs of the snapshots captured around the violation
+  evidence?: string[];
+  // False for entries kept for review that never count towards the policy score
+  scored?: boolean;
+  metadata?: Record<string, string | number | boolean>;
+}
+
+export const VIOLATION_LABELS: Record<ViolationType, string> = {
+  'tab-switch': 'Tab switching detected',
+  'fullscreen-exit': 'Fullscreen mode exited',
+  'no-face': 'No face detected',
+  'multiple-faces': 'Multiple faces detected',
+  'looking-away': 'Looking away from the screen',
+  'speech-detected': 'Speech detected',
+  'loud-noise': 'Loud noise detected',
+  'screen-share-stopped': 'Screen sharing stopped',
+  'multiple-screens': 'Additional screen detected',
+  'identity-mismatch': 'Identity could not be confirmed',
+  'blocked-shortcut': 'Blocked keyboard shortcut used',
+  'devtools-open': 'Developer tools opened',
+  'window-blur': 'Exam window lost focus',
+  'idle': 'No activity detected',
+  'virtual-camera': 'Virtual camera in use',
+  'device-change': 'Media devices changed',
+  'frozen-video': 'Camera feed frozen',
+  'custom': 'Flagged by an additional check',
+};
+
+// How serious each violation is on its own, before any policy weighting
+export const VIOLATION_SEVERITY: Record<ViolationType, ViolationSeverity> = {
+  'tab-switch': 'medium',
+  'fullscreen-exit': 'medium',
+  'no-face': 'medium',
+  'multiple-faces': 'high',
+  'looking-away': 'low',
+  'speech-detected': 'low',
+  'loud-noise': 'low',
+  'screen-share-stopped': 'high',
+  'multiple-screens': 'high',
+  'identity-mismatch': 'critical',
+  'blocked-shortcut': 'low',
+  'devtools-open': 'high',
+  'window-blur': 'medium',
+  'idle': 'low',
+  'virtual-camera': 'critical',
+  'device-change': 'low',
+  'frozen-video': 'high',
+  'custom': 'medium',
+};
+
+export interface ChatMessage {
+  id: string;
+  from: 'candidate' | 'proctor';
+  text: string;
+  sentAt: string;
+  questionIndex?: number;
+}
+
+// Candidate actions kept alongside violations so an attempt can be replayed
+export type ActivityEventType = 'navigation' | 'answer-change';
+
+export interface ActivityEvent {
+  type: ActivityEventType;
+  timestamp: string;
+  questionIndex: number;
+  answer?: string;
+}
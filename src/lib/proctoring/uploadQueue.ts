@@ -0,0 +1,159 @@
+import { getProctoringDB } from "./db";
+
+export type UploadKind = 'snapshot' | 'violation' | 'system-check' | 'identity' | 'chat' | 'activity' | 'pause' | 'submission' | 'session-log';
+
+export interface QueuedUpload {
+  id?: number;
+  kind: UploadKind;
+  sessionId: string;
+  url: string;
+  // Multipart bodies are flat records of strings and blobs, which IndexedDB stores as they are
+  format?: 'json' | 'multipart';
+  body: unknown;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+}
+
+type DepthListener = (depth: number) => void;
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+const listeners = new Set<DepthListener>();
+let draining = false;
+let drainTimer: ReturnType<typeof setTimeout> | null = null;
+let started = 0;
+
+export const getBackoff = (attempts: number) => {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  // Jitter keeps many candidates from retrying against the backend in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Client errors other than these will fail the same way on every retry
+export const isRetryable = (status: number) => status >= 500 || status === 401 || status === 408 || status === 429;
+
+const notifyDepth = async () => {
+  if (!listeners.size) return;
+  const depth = await getQueueDepth();
+  listeners.forEach((listener) => listener(depth));
+};
+
+export const getQueueDepth = async () => {
+  const db = await getProctoringDB();
+  return db.count("uploads");
+};
+
+const scheduleDrain = (delayMs: number) => {
+  if (!started) return;
+  if (drainTimer) clearTimeout(drainTimer);
+  drainTimer = setTimeout(() => {
+    drainTimer = null;
+    drainUploadQueue();
+  }, Math.max(delayMs, 0));
+};
+
+const toFormData = (body: Record<string, string | number | Blob>) => {
+  const formData = new FormData();
+  Object.entries(body).forEach(([name, value]) => {
+    if (value instanceof Blob) formData.append(name, value, value instanceof File ? value.name : name);
+    else formData.append(name, String(value));
+  });
+  return formData;
+};
+
+const sendUpload = async (upload: QueuedUpload) => {
+  const token = localStorage.getItem("token");
+  const multipart = upload.format === 'multipart';
+  return fetch(upload.url, {
+    method: "POST",
+    headers: {
+      // The browser sets the multipart boundary itself
+      ...(!multipart && { "Content-Type": "application/json" }),
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: multipart ? toFormData(upload.body as Record<string, string | number | Blob>) : JSON.stringify(upload.body),
+  });
+};
+
+export const drainUploadQueue = async () => {
+  if (draining || !navigator.onLine) return;
+  draining = true;
+
+  try {
+    const db = await getProctoringDB();
+    const due = await db.getAllFromIndex("uploads", "nextAttemptAt", IDBKeyRange.upperBound(Date.now()));
+    // Oldest first, so the backend sees events in the order they happened
+    due.sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const upload of due) {
+      let status: number | null = null;
+      try {
+        const response = await sendUpload(upload);
+        status = response.status;
+        if (!response.ok) throw new Error(`Backend error: ${response.status}`);
+
+        await db.delete("uploads", upload.id);
+      } catch (error) {
+        if (status !== null && !isRetryable(status)) {
+          console.error(`Dropping ${upload.kind} upload rejected by backend:`, error);
+          await db.delete("uploads", upload.id);
+          continue;
+        }
+
+        const attempts = upload.attempts + 1;
+        await db.put("uploads", { ...upload, attempts, nextAttemptAt: Date.now() + getBackoff(attempts) });
+
+        // Connectivity is gone; the rest would fail the same way
+        if (status === null) break;
+      } finally {
+        notifyDepth();
+      }
+    }
+
+    const next = await db.getAllFromIndex("uploads", "nextAttemptAt");
+    if (next.length) scheduleDrain(next[0].nextAttemptAt - Date.now());
+  } catch (error) {
+    console.error('Error draining upload queue:', error);
+  } finally {
+    draining = false;
+  }
+};
+
+export const enqueueUpload = async (upload: Pick<QueuedUpload, 'kind' | 'sessionId' | 'url' | 'body' | 'format'>) => {
+  const now = Date.now();
+  const db = await getProctoringDB();
+  await db.add("uploads", { ...upload, attempts: 0, createdAt: now, nextAttemptAt: now });
+  notifyDepth();
+  drainUploadQueue();
+};
+
+export const subscribeToQueueDepth = (listener: DepthListener) => {
+  listeners.add(listener);
+  getQueueDepth().then(listener).catch(() => undefined);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const handleOnline = () => drainUploadQueue();
+
+// Reference counted so several hooks can share the one queue
+export const startUploadQueue = () => {
+  started++;
+  if (started === 1) {
+    window.addEventListener("online", handleOnline);
+    // Picks up anything left over from before a reload
+    drainUploadQueue();
+  }
+
+  return () => {
+    started--;
+    if (started === 0) {
+      window.removeEventListener("online", handleOnline);
+      if (drainTimer) clearTimeout(drainTimer);
+      drainTimer = null;
+    }
+  };
+};
@@ -0,0 +1,162 @@
+export type AudioEventType = 'speech-detected' | 'loud-noise';
+
+export interface AudioEvent {
+  type: AudioEventType;
+  timestamp: string;
+  durationMs?: number;
+  rms: number;
+  noiseFloor: number;
+}
+
+export interface VoiceActivityOptions {
+  onEvent: (event: AudioEvent) => void;
+  onLevel?: (rms: number) => void;
+}
+
+export interface VoiceActivityDetector {
+  calibrate: (durationMs?: number) => Promise<number>;
+  start: () => void;
+  // Reports any speech still in progress unless told to discard it
+  stop: (discardOpenSpeech?: boolean) => void;
+}
+
+const SAMPLE_INTERVAL_MS = 100;
+const CALIBRATION_MS = 3000;
+// Quiet rooms still need some headroom so breathing or keyboard clicks don't count
+const MIN_NOISE_FLOOR = 0.005;
+const SPEECH_FACTOR = 3;
+const LOUD_FACTOR = 10;
+const LOUD_MIN_RMS = 0.2;
+// Share of spectral energy that must fall in the voice band (300-3400 Hz)
+const SPEECH_BAND_RATIO = 0.5;
+const SPEECH_MIN_MS = 600;
+// Short pauses between words don't end a speech episode
+const SPEECH_HANGOVER_MS = 500;
+const LOUD_COOLDOWN_MS = 2000;
+
+export const computeRms = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+const computeSpeechBandRatio = (spectrum: Float32Array, sampleRate: number, fftSize: number) => {
+  const binHz = sampleRate / fftSize;
+  let total = 0;
+  let voice = 0;
+
+  for (let i = 0; i < spectrum.length; i++) {
+    // Spectrum is in dB; convert back to linear power
+    const power = Math.pow(10, spectrum[i] / 10);
+    const frequency = i * binHz;
+    total += power;
+    if (frequency >= 300 && frequency <= 3400) voice += power;
+  }
+
+  return total > 0 ? voice / total : 0;
+};
+
+export const createVoiceActivityDetector = (
+  stream: MediaStream,
+  { onEvent, onLevel }: VoiceActivityOptions,
+): VoiceActivityDetector => {
+  const audioContext = new AudioContext();
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const spectrum = new Float32Array(analyser.frequencyBinCount);
+
+  let noiseFloor = MIN_NOISE_FLOOR;
+  let interval: ReturnType<typeof setInterval> | null = null;
+  let calibration: ReturnType<typeof setInterval> | null = null;
+  let stopped = false;
+  let speech: { startedAt: number; lastVoiceAt: number; peakRms: number } | null = null;
+  let lastLoudAt = 0;
+
+  const readRms = () => {
+    analyser.getFloatTimeDomainData(samples);
+    return computeRms(samples);
+  };
+
+  const endSpeech = (now: number) => {
+    if (!speech) return;
+    const durationMs = speech.lastVoiceAt - speech.startedAt;
+    if (durationMs >= SPEECH_MIN_MS) {
+      onEvent({
+        type: 'speech-detected',
+        timestamp: new Date(speech.startedAt).toISOString(),
+        durationMs,
+        rms: speech.peakRms,
+        noiseFloor,
+      });
+    }
+    speech = null;
+  };
+
+  const tick = () => {
+    const now = Date.now();
+    const rms = readRms();
+    onLevel?.(rms);
+
+    if (rms >= Math.max(noiseFloor * LOUD_FACTOR, LOUD_MIN_RMS) && now - lastLoudAt > LOUD_COOLDOWN_MS) {
+      lastLoudAt = now;
+      onEvent({ type: 'loud-noise', timestamp: new Date(now).toISOString(), rms, noiseFloor });
+    }
+
+    analyser.getFloatFrequencyData(spectrum);
+    const isVoice = rms >= noiseFloor * SPEECH_FACTOR
+      && computeSpeechBandRatio(spectrum, audioContext.sampleRate, analyser.fftSize) >= SPEECH_BAND_RATIO;
+
+    if (isVoice) {
+      if (!speech) speech = { startedAt: now, lastVoiceAt: now, peakRms: rms };
+      speech.lastVoiceAt = now;
+      speech.peakRms = Math.max(speech.peakRms, rms);
+    } else if (speech && now - speech.lastVoiceAt > SPEECH_HANGOVER_MS) {
+      endSpeech(now);
+    }
+  };
+
+  const calibrate = async (durationMs = CALIBRATION_MS) => {
+    await audioContext.resume().catch(() => undefined);
+
+    const readings: number[] = [];
+    await new Promise<void>((resolve) => {
+      calibration = setInterval(() => {
+        if (!stopped) readings.push(readRms());
+        if (stopped || readings.length * SAMPLE_INTERVAL_MS >= durationMs) {
+          clearInterval(calibration);
+          calibration = null;
+          resolve();
+        }
+      }, SAMPLE_INTERVAL_MS);
+    });
+
+    // Use the upper quartile so a single quiet moment doesn't set the floor too low
+    const sorted = [...readings].sort((a, b) => a - b);
+    const upperQuartile = sorted[Math.floor(sorted.length * 0.75)] ?? 0;
+    noiseFloor = Math.max(upperQuartile, MIN_NOISE_FLOOR);
+    return noiseFloor;
+  };
+
+  const start = () => {
+    if (interval || stopped) return;
+    audioContext.resume().catch(() => undefined);
+    interval = setInterval(tick, SAMPLE_INTERVAL_MS);
+  };
+
+  const stop = (discardOpenSpeech = false) => {
+    if (stopped) return;
+    stopped = true;
+    if (interval) clearInterval(interval);
+    interval = null;
+    if (discardOpenSpeech) speech = null;
+    else endSpeech(Date.now());
+    source.disconnect();
+    audioContext.close().catch(() => undefined);
+  };
+
+  return { calibrate, start, stop };
+};
@@ -12,6 +12,11 @@ import ResetPassword from "./ResetPassword";
 import Profile from "./Profile";
 import PdfUpload from "./PdfUpload";
 import Quiz from "./Quiz";
+import SystemCheck from "./SystemCheck";
+import Monitor from "./Monitor";
+import Review from "./Review";
+import Replay from "./Replay";
+import VerifyLog from "./VerifyLog";
 import NotFound from "./NotFound";
 
 const queryClient = new QueryClient();
@@ -32,7 +37,12 @@ const Index = () => {
               <Route path="/reset-password" element={<ResetPassword />} />
               <Route path="/profile" element={<Profile />} />
               <Route path="/pdf-upload" element={<PdfUpload />} />
+              <Route path="/system-check" element={<SystemCheck />} />
               <Route path="/quiz" element={<Quiz />} />
+              <Route path="/monitor/:examId" element={<Monitor />} />
+              <Route path="/review/:examId" element={<Review />} />
+              <Route path="/replay/:sessionId" element={<Replay />} />
+              <Route path="/verify-log" element={<VerifyLog />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
             <Footer />
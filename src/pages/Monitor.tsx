@@ -0,0 +1,204 @@
+import { useState, useMemo } from "react";
+import { useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Users, AlertTriangle, CameraOff, Loader2 } from "lucide-react";
+import SessionTimeline from "@/components/SessionTimeline";
+import { useExamMonitor } from "@/hooks/useExamMonitor";
+import { getRiskLevel, getRiskScore, type MonitoredSession, type RiskLevel } from "@/lib/proctoring/monitor";
+
+type RiskFilter = "all" | RiskLevel | "disconnected";
+type SortKey = "risk" | "name" | "question" | "last-seen";
+
+const RISK_STYLES: Record<RiskLevel, string> = {
+  high: "border-red-500",
+  medium: "border-yellow-500",
+  low: "",
+};
+
+const compareSessions = (sortKey: SortKey) => (a: MonitoredSession, b: MonitoredSession) => {
+  switch (sortKey) {
+    case "name":
+      return a.candidateName.localeCompare(b.candidateName);
+    case "question":
+      return b.questionIndex - a.questionIndex;
+    case "last-seen":
+      return b.lastSeenAt.localeCompare(a.lastSeenAt);
+    default:
+      return getRiskScore(b) - getRiskScore(a);
+  }
+};
+
+const SessionCard = ({ session, onSelect }: { session: MonitoredSession; onSelect: () => void }) => {
+  const risk = getRiskLevel(session);
+
+  return (
+    <Card
+      className={`cursor-pointer overflow-hidden border-2 transition-shadow hover:shadow-md ${RISK_STYLES[risk]}`}
+      onClick={onSelect}
+    >
+      <div className="aspect-video bg-muted flex items-center justify-center">
+        {session.latestSnapshot ? (
+          <img src={session.latestSnapshot} alt={session.candidateName} className="h-full w-full object-cover" />
+        ) : (
+          <CameraOff className="h-8 w-8 text-muted-foreground" />
+        )}
+      </div>
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="font-medium truncate">{session.candidateName}</p>
+          <span className={`text-xs ${session.connection === "connected" ? "text-green-600" : "text-yellow-600"}`}>
+            ● {session.connection}
+          </span>
+        </div>
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Question {session.questionIndex + 1}</span>
+          <Badge variant={session.violationCount > 0 ? "destructive" : "secondary"}>
+            {session.violationCount} violations
+          </Badge>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const Monitor = () => {
+  const { examId } = useParams();
+  const { sessions, connection, isLoading, error } = useExamMonitor(examId);
+  const [search, setSearch] = useState("");
+  const [riskFilter, setRiskFilter] = useState<RiskFilter>("all");
+  const [sortKey, setSortKey] = useState<SortKey>("risk");
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+
+  const allSessions = useMemo(() => Object.values(sessions), [sessions]);
+
+  const visibleSessions = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return allSessions
+      .filter((session) => {
+        if (query && !session.candidateName.toLowerCase().includes(query) && !session.sessionId.toLowerCase().includes(query)) {
+          return false;
+        }
+        if (riskFilter === "all") return true;
+        if (riskFilter === "disconnected") return session.connection !== "connected";
+        return getRiskLevel(session) === riskFilter;
+      })
+      .sort(compareSessions(sortKey));
+  }, [allSessions, search, riskFilter, sortKey]);
+
+  const flaggedCount = allSessions.filter((session) => getRiskLevel(session) !== "low").length;
+  const selectedSession = selectedSessionId ? sessions[selectedSessionId] : undefined;
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Live Monitoring</h1>
+          <p className="text-sm text-muted-foreground">Exam {examId}</p>
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          <span className="flex items-center gap-1">
+            <Users className="h-4 w-4" /> {allSessions.length} sessions
+          </span>
+          <span className="flex items-center gap-1 text-red-600">
+            <AlertTriangle className="h-4 w-4" /> {flaggedCount} flagged
+          </span>
+          <span className={connection === "connected" ? "text-green-600" : "text-yellow-600"}>● Feed {connection}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by candidate or session..."
+          className="max-w-xs"
+        />
+        <Select value={riskFilter} onValueChange={(value) => setRiskFilter(value as RiskFilter)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All sessions</SelectItem>
+            <SelectItem value="high">High risk</SelectItem>
+            <SelectItem value="medium">Medium risk</SelectItem>
+            <SelectItem value="low">Low risk</SelectItem>
+            <SelectItem value="disconnected">Disconnected</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={sortKey} onValueChange={(value) => setSortKey(value as SortKey)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="risk">Sort by risk</SelectItem>
+            <SelectItem value="name">Sort by name</SelectItem>
+            <SelectItem value="question">Sort by progress</SelectItem>
+            <SelectItem value="last-seen">Sort by last activity</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && allSessions.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : visibleSessions.length === 0 ? (
+        <Card>
+          <CardHeader className="text-center">
+            <CardTitle>No sessions</CardTitle>
+            <CardDescription>No active sessions match the current filters.</CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+          {visibleSessions.map((session) => (
+            <SessionCard
+              key={session.sessionId}
+              session={session}
+              onSelect={() => setSelectedSessionId(session.sessionId)}
+            />
+          ))}
+        </div>
+      )}
+
+      <Sheet open={!!selectedSession} onOpenChange={(open) => !open && setSelectedSessionId(null)}>
+        <SheetContent side="right" className="flex flex-col sm:max-w-md">
+          {selectedSession && (
+            <>
+              <SheetHeader>
+                <SheetTitle>{selectedSession.candidateName}</SheetTitle>
+                <SheetDescription>
+                  Session {selectedSession.sessionId} · Question {selectedSession.questionIndex + 1} ·{" "}
+                  {selectedSession.violationCount} violations
+                </SheetDescription>
+              </SheetHeader>
+              {selectedSession.latestSnapshot && (
+                <img
+                  src={selectedSession.latestSnapshot}
+                  alt={selectedSession.candidateName}
+                  className="rounded-lg border w-full"
+                />
+              )}
+              <div className="flex-1 overflow-y-auto py-2">
+                <SessionTimeline events={selectedSession.timeline} />
+              </div>
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default Monitor;
@@ -1,13 +1,28 @@
-import { useState, useEffect, useCallback } from "react";
-import { Link } from "react-router-dom";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { Navigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { ChevronLeft, ChevronRight, CheckCircle, XCircle } from "lucide-react";
+import { ChevronLeft, ChevronRight, CheckCircle, XCircle, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import Proctor from "@/components/Proctor";
 import { ProctoringState, ProctoringActions } from "@/hooks/useProctoring";
+import { resolveViolationPolicy } from "@/lib/proctoring/policy";
+import { resolveDetectors } from "@/lib/proctoring/detectors";
+import { resolveCaptureSchedule } from "@/lib/proctoring/captureScheduler";
+import { resolveSnapshotEncoding } from "@/lib/proctoring/snapshotEncoder";
+import { clearSystemCheckReport, loadSystemCheckReport } from "@/lib/proctoring/systemCheck";
+import { formatOffset } from "@/lib/proctoring/replay";
+import {
+  getForcedOutcome,
+  getOutcomeReason,
+  isInvalidatedOutcome,
+  submitAttempt,
+  type AttemptSubmission,
+  type SubmissionOutcome,
+} from "@/lib/proctoring/submission";
+import SubmissionResult from "@/components/SubmissionResult";
 
 interface Question {
   question: string;
@@ -17,6 +32,15 @@ interface Question {
 
 interface QuizData {
   parsedText: Question[];
+  proctoringPolicy?: unknown;
+  recordVideo?: boolean;
+  requireScreenShare?: boolean;
+  requireIdentityCheck?: boolean;
+  requireRoomScan?: boolean;
+  liveProctoring?: boolean;
+  detectors?: unknown;
+  captureSchedule?: unknown;
+  snapshotEncoding?: unknown;
 }
 
 const Quiz = () => {
@@ -25,11 +49,18 @@ const Quiz = () => {
   const [selectedAnswers, setSelectedAnswers] = useState<Record<number, string>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitted, setIsSubmitted] = useState(false);
-  const [score, setScore] = useState<number | null>(null);
+  const [submission, setSubmission] = useState<AttemptSubmission | null>(null);
   const [proctoringState, setProctoringState] = useState<ProctoringState | null>(null);
   const [proctoringActions, setProctoringActions] = useState<ProctoringActions | null>(null);
+  const [systemCheckPassed] = useState(() => !!loadSystemCheckReport()?.passed);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const { toast } = useToast();
 
+  const policy = useMemo(() => resolveViolationPolicy(quizData?.proctoringPolicy), [quizData]);
+  const detectors = useMemo(() => resolveDetectors(quizData?.detectors), [quizData]);
+  const captureSchedule = useMemo(() => resolveCaptureSchedule(quizData?.captureSchedule), [quizData]);
+  const snapshotEncoding = useMemo(() => resolveSnapshotEncoding(quizData?.snapshotEncoding), [quizData]);
+
   const handleProctoringReady = useCallback((state: ProctoringState, actions: ProctoringActions) => {
     setProctoringState(state);
     setProctoringActions(actions);
@@ -79,14 +110,15 @@ const Quiz = () => {
   };
 
   useEffect(() => {
-    fetchQuizData();
-  }, []);
+    if (systemCheckPassed) fetchQuizData();
+  }, [systemCheckPassed]);
 
   const handleAnswerSelect = (answer: string) => {
     setSelectedAnswers((prev) => ({
       ...prev,
       [currentQuestionIndex]: answer,
     }));
+    proctoringActions?.recordAnswerChange(currentQuestionIndex, answer);
   };
 
   const handleNext = () => {
@@ -101,22 +133,11 @@ const Quiz = () => {
     }
   };
 
-  const handleSubmit = async () => {
+  // Forced submissions skip the checks below; they are how terminal violations end the attempt
+  const handleSubmit = async (forcedOutcome?: SubmissionOutcome) => {
     if (!quizData || !proctoringState || !proctoringActions) return;
 
-    const totalViolations = proctoringState.totalViolations;
-
-    if (totalViolations >= 3) {
-      toast({
-        title: "Submission Blocked",
-        description: "Quiz cannot be submitted due to multiple proctoring violations (tab switching/fullscreen exits).",
-        variant: "destructive",
-      });
-      await proctoringActions.exportViolationLog();
-      return;
-    }
-
-    if (proctoringState.permissionViolated) {
+    if (!forcedOutcome && proctoringState.permissionViolated) {
       toast({
         title: "Submission Blocked",
         description: "Quiz cannot be submitted due to permission violations during the exam.",
@@ -126,7 +147,7 @@ const Quiz = () => {
       return;
     }
 
-    if (!proctoringState.permissionsGranted) {
+    if (!forcedOutcome && !proctoringState.permissionsGranted) {
       toast({
         title: "Submission Blocked",
         description: "Camera and microphone must be active to submit the quiz.",
@@ -141,7 +162,23 @@ const Quiz = () => {
     });
 
     const calculatedScore = (correctAnswers / quizData.parsedText.length) * 100;
-    setScore(calculatedScore);
+    const outcome = forcedOutcome ?? 'completed';
+    const attempt: AttemptSubmission = {
+      sessionId: proctoringState.sessionId,
+      outcome,
+      invalidated: isInvalidatedOutcome(outcome),
+      reason: getOutcomeReason(
+        outcome,
+        outcome === 'terminated' ? proctoringState.terminated?.reason : proctoringState.violationLimit?.toString(),
+      ),
+      answers: selectedAnswers,
+      answeredCount: Object.keys(selectedAnswers).length,
+      totalQuestions: quizData.parsedText.length,
+      score: calculatedScore,
+      submittedAt: new Date().toISOString(),
+    };
+
+    setSubmission(attempt);
     setIsSubmitted(true);
 
     proctoringActions.cleanupMedia();
@@ -151,15 +188,52 @@ const Quiz = () => {
       document.exitFullscreen();
     }
 
-    // Export violation log to backend
-    await proctoringActions.exportViolationLog(calculatedScore);
+    try {
+      await submitAttempt(attempt);
+    } catch (error) {
+      console.error('Error queueing submission:', error);
+    }
 
-    toast({
-      title: "Quiz Submitted!",
-      description: `You scored ${correctAnswers}/${quizData.parsedText.length} (${calculatedScore.toFixed(1)}%)`,
-    });
+    // Export violation log to backend
+    await proctoringActions.exportViolationLog(calculatedScore, attempt);
+    // The next attempt has to go through the system check again
+    clearSystemCheckReport();
+
+    toast(
+      attempt.invalidated
+        ? { title: "Attempt Submitted for Review", description: attempt.reason, variant: "destructive" }
+        : {
+            title: "Quiz Submitted!",
+            description: `You scored ${correctAnswers}/${quizData.parsedText.length} (${calculatedScore.toFixed(1)}%)`,
+          },
+    );
   };
 
+  // The auto-submit effect below always calls the latest handleSubmit without re-running on every render
+  const handleSubmitRef = useRef(handleSubmit);
+  handleSubmitRef.current = handleSubmit;
+
+  // The clock only runs while the candidate can actually work on the exam
+  const timerRunning = !isSubmitted && !!proctoringState?.permissionsGranted && !proctoringState?.isPaused;
+
+  useEffect(() => {
+    if (!timerRunning) return;
+    const timer = setInterval(() => setElapsedSeconds((prev) => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [timerRunning]);
+
+  const pendingOutcome = getForcedOutcome({
+    policyAction: proctoringState?.policyAction,
+    terminated: !!proctoringState?.terminated,
+  });
+
+  // Policies and proctors can end the attempt by submitting whatever has been answered so far
+  useEffect(() => {
+    if (pendingOutcome && !isSubmitted) {
+      handleSubmitRef.current(pendingOutcome);
+    }
+  }, [pendingOutcome, isSubmitted]);
+
   const getAnswerFeedback = (questionIndex: number) => {
     if (!isSubmitted || !quizData) return null;
 
@@ -177,6 +251,10 @@ const Quiz = () => {
     );
   };
 
+  if (!systemCheckPassed) {
+    return <Navigate to="/system-check" replace />;
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -205,14 +283,27 @@ const Quiz = () => {
   const currentQuestion = quizData.parsedText[currentQuestionIndex];
   const progress = ((currentQuestionIndex + 1) / quizData.parsedText.length) * 100;
   const allAnswersSelected = quizData.parsedText.every((_, i) => selectedAnswers[i]);
-  const totalViolations = proctoringState?.totalViolations ?? 0;
 
   return (
     <Proctor
       isSubmitted={isSubmitted}
       currentQuestionIndex={currentQuestionIndex}
+      policy={policy}
+      recordVideo={quizData.recordVideo}
+      requireScreenShare={quizData.requireScreenShare}
+      requireIdentity={quizData.requireIdentityCheck}
+      requireRoomScan={quizData.requireRoomScan}
+      liveProctoring={quizData.liveProctoring}
+      detectors={detectors}
+      captureSchedule={captureSchedule}
+      snapshotEncoding={snapshotEncoding}
       onProctoringReady={handleProctoringReady}
     >
+      <div className="flex justify-end items-center gap-2 mb-2 text-sm text-muted-foreground">
+        <Clock className="h-4 w-4" />
+        <span className="font-mono">{formatOffset(elapsedSeconds * 1000)}</span>
+        {proctoringState?.isPaused && <span>(paused)</span>}
+      </div>
       <Card className="justify-between items-center">
         <CardHeader>
           <CardTitle className="flex justify-between items-center">
@@ -243,15 +334,9 @@ const Quiz = () => {
             </Button>
             <div className="flex gap-2">
               {currentQuestionIndex === quizData.parsedText.length - 1 && !isSubmitted ? (
-                totalViolations >= 3 ? (
-                  <Button disabled className="bg-red-500 hover:bg-red-500">
-                    Submission Blocked - Integrity Violations
-                  </Button>
-                ) : (
-                  <Button onClick={handleSubmit} disabled={!allAnswersSelected}>
-                    Submit Quiz
-                  </Button>
-                )
+                <Button onClick={() => handleSubmit()} disabled={!allAnswersSelected}>
+                  Submit Quiz
+                </Button>
               ) : (
                 <Button
                   onClick={handleNext}
@@ -265,20 +350,11 @@ const Quiz = () => {
         </CardContent>
       </Card>
 
-      {isSubmitted && score !== null && (
-        <Card className="mt-6">
-          <CardHeader className="text-center">
-            <CardTitle className="text-2xl font-bold">Quiz Completed</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center">
-              <div className="font-bold">{score.toFixed(1)}%</div> <br />
-              <Link to="/">
-                <Button>Home</Button>
-              </Link>
-            </div>
-          </CardContent>
-        </Card>
+      {isSubmitted && submission && (
+        <SubmissionResult
+          submission={submission}
+          pendingUploads={proctoringState?.uploadQueueDepth ?? 0}
+        />
       )}
     </Proctor>
   );
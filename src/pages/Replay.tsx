@@ -0,0 +1,244 @@
+import { useState, useEffect, useMemo } from "react";
+import { useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Play, Pause, SkipBack, CameraOff, Loader2 } from "lucide-react";
+import {
+  REPLAY_TRACK_LABELS,
+  fetchSessionReplay,
+  formatOffset,
+  getReplayStateAt,
+  loadLocalReplay,
+  type ReplayTrack,
+  type SessionReplay,
+} from "@/lib/proctoring/replay";
+
+const TRACKS: ReplayTrack[] = ['navigation', 'answers', 'violations', 'audio', 'snapshots'];
+
+const TRACK_COLORS: Record<ReplayTrack, string> = {
+  navigation: "bg-blue-500",
+  answers: "bg-green-500",
+  violations: "bg-red-500",
+  audio: "bg-yellow-500",
+  snapshots: "bg-muted-foreground",
+};
+
+const PLAYBACK_TICK_MS = 250;
+const PLAYBACK_SPEEDS = [1, 4, 16];
+
+const Replay = () => {
+  const { sessionId } = useParams();
+  const [replay, setReplay] = useState<SessionReplay | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[1]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    fetchSessionReplay(sessionId, controller.signal)
+      .then(setReplay)
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching session replay:', err);
+        const local = loadLocalReplay(sessionId);
+        if (local) {
+          setReplay(local);
+          setError("Server replay unavailable, showing the log saved in this browser (no snapshots).");
+        } else {
+          setError(err instanceof Error ? err.message : "Failed to load session replay");
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!isPlaying || !replay) return;
+
+    const interval = setInterval(() => {
+      setPosition((prev) => {
+        const next = prev + PLAYBACK_TICK_MS * speed;
+        if (next >= replay.durationMs) {
+          setIsPlaying(false);
+          return replay.durationMs;
+        }
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, replay]);
+
+  const current = useMemo(() => (replay ? getReplayStateAt(replay, position) : null), [replay, position]);
+
+  // Events around the playhead, most recent last
+  const recentEvents = useMemo(
+    () => (replay ? replay.events.filter((e) => e.track !== 'snapshots' && e.offsetMs <= position).slice(-8) : []),
+    [replay, position],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!replay || !current) {
+    return (
+      <div className="max-w-4xl mx-auto p-4">
+        <Alert variant="destructive">
+          <AlertDescription>{error ?? "Session replay not found."}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const percent = (offsetMs: number) => (replay.durationMs ? (offsetMs / replay.durationMs) * 100 : 0);
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Session Replay</h1>
+        <p className="text-sm text-muted-foreground">
+          Session {replay.sessionId} · started {new Date(replay.startedAt).toLocaleString()}
+        </p>
+      </div>
+
+      {error && (
+        <Alert>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center gap-3">
+            <Button size="icon" variant="outline" onClick={() => setPosition(0)}>
+              <SkipBack className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              onClick={() => {
+                if (position >= replay.durationMs) setPosition(0);
+                setIsPlaying((prev) => !prev);
+              }}
+            >
+              {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            {PLAYBACK_SPEEDS.map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={option === speed ? "secondary" : "ghost"}
+                onClick={() => setSpeed(option)}
+              >
+                {option}x
+              </Button>
+            ))}
+            <span className="ml-auto text-sm font-mono">
+              {formatOffset(position)} / {formatOffset(replay.durationMs)}
+            </span>
+          </div>
+
+          <Slider
+            value={[position]}
+            max={Math.max(replay.durationMs, 1)}
+            step={1000}
+            onValueChange={([value]) => setPosition(value)}
+          />
+
+          <div className="space-y-2">
+            {TRACKS.map((track) => (
+              <div key={track} className="flex items-center gap-3">
+                <span className="w-24 shrink-0 text-xs text-muted-foreground">{REPLAY_TRACK_LABELS[track]}</span>
+                <div className="relative h-6 flex-1 rounded bg-muted">
+                  {replay.events
+                    .filter((event) => event.track === track)
+                    .map((event, index) => (
+                      <button
+                        key={`${event.timestamp}-${index}`}
+                        title={`${formatOffset(event.offsetMs)} ${event.label}`}
+                        onClick={() => setPosition(event.offsetMs)}
+                        className={`absolute top-1 h-4 min-w-1 rounded-sm opacity-80 hover:opacity-100 ${TRACK_COLORS[track]}`}
+                        style={{
+                          left: `${percent(event.offsetMs)}%`,
+                          width: event.durationMs ? `${percent(event.durationMs)}%` : undefined,
+                        }}
+                      />
+                    ))}
+                  <div className="absolute top-0 h-full w-0.5 bg-foreground" style={{ left: `${percent(position)}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">At {formatOffset(position)}</CardTitle>
+            <CardDescription>
+              Viewing question {current.questionIndex + 1} · {Object.keys(current.answers).length} answered ·{" "}
+              {current.violationCount} violations so far
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="aspect-video bg-muted rounded-lg flex items-center justify-center overflow-hidden">
+              {current.snapshot ? (
+                <img src={current.snapshot.imageData} alt="Candidate snapshot" className="h-full w-full object-cover" />
+              ) : (
+                <CameraOff className="h-8 w-8 text-muted-foreground" />
+              )}
+            </div>
+            {Object.keys(current.answers).length > 0 && (
+              <div className="text-sm space-y-1">
+                {Object.entries(current.answers).map(([questionIndex, answer]) => (
+                  <p key={questionIndex}>
+                    <span className="text-muted-foreground">Q{Number(questionIndex) + 1}:</span> {answer}
+                  </p>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Recent Events</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {recentEvents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing has happened yet at this point.</p>
+            ) : (
+              <ul className="space-y-2">
+                {recentEvents.map((event, index) => (
+                  <li key={`${event.timestamp}-${index}`} className="flex items-center gap-3 text-sm">
+                    <span className={`h-2 w-2 rounded-full ${TRACK_COLORS[event.track]}`} />
+                    <span className="font-mono text-xs text-muted-foreground">{formatOffset(event.offsetMs)}</span>
+                    <span>{event.label}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
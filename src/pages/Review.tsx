@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import ViolationReviewItem from "@/components/ViolationReviewItem";
+import {
+  fetchFlaggedSessions,
+  fetchSessionReview,
+  getEvidenceSnapshots,
+  saveReviewDecision,
+  type FlaggedSession,
+  type ReviewDecision,
+  type SessionReview,
+} from "@/lib/proctoring/review";
+
+const Review = () => {
+  const { examId } = useParams();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<FlaggedSession[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [review, setReview] = useState<SessionReview | null>(null);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(true);
+  const [isLoadingReview, setIsLoadingReview] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!examId) return;
+
+    const controller = new AbortController();
+    setIsLoadingSessions(true);
+
+    fetchFlaggedSessions(examId, controller.signal)
+      .then((flagged) => {
+        setSessions(flagged);
+        setSelectedSessionId((current) => current ?? flagged[0]?.sessionId ?? null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching flagged sessions:', err);
+        setError(err instanceof Error ? err.message : "Failed to load flagged sessions");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingSessions(false);
+      });
+
+    return () => controller.abort();
+  }, [examId]);
+
+  useEffect(() => {
+    if (!selectedSessionId) return;
+
+    const controller = new AbortController();
+    setIsLoadingReview(true);
+    setReview(null);
+
+    fetchSessionReview(selectedSessionId, controller.signal)
+      .then(setReview)
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching session review:', err);
+        setError(err instanceof Error ? err.message : "Failed to load session review");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingReview(false);
+      });
+
+    return () => controller.abort();
+  }, [selectedSessionId]);
+
+  const handleSaveDecision = async (decision: ReviewDecision) => {
+    if (!review) return;
+
+    try {
+      const saved = await saveReviewDecision(review.sessionId, decision);
+      const wasPending = !review.decisions[decision.sequence];
+
+      setReview((prev) => prev && { ...prev, decisions: { ...prev.decisions, [saved.sequence]: saved } });
+      if (wasPending) {
+        setSessions((prev) =>
+          prev.map((session) =>
+            session.sessionId === review.sessionId
+              ? { ...session, pendingCount: Math.max(0, session.pendingCount - 1) }
+              : session,
+          ),
+        );
+      }
+
+      toast({ title: "Decision Saved", description: `Violation #${decision.sequence} updated.` });
+    } catch (err) {
+      console.error('Error saving review decision:', err);
+      toast({
+        title: "Save Failed",
+        description: err instanceof Error ? err.message : "Could not save the decision.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Violation Review</h1>
+        <p className="text-sm text-muted-foreground">Exam {examId}</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-[280px_1fr]">
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle className="text-base">Flagged Sessions</CardTitle>
+            <CardDescription>{sessions.length} sessions to review</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoadingSessions && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />}
+            {!isLoadingSessions && sessions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No flagged sessions for this exam.</p>
+            )}
+            {sessions.map((session) => (
+              <button
+                key={session.sessionId}
+                onClick={() => setSelectedSessionId(session.sessionId)}
+                className={`w-full text-left rounded-lg border p-3 transition-colors hover:bg-muted ${
+                  session.sessionId === selectedSessionId ? "border-primary bg-muted" : ""
+                }`}
+              >
+                <p className="font-medium truncate">{session.candidateName}</p>
+                <div className="flex items-center justify-between text-xs text-muted-foreground mt-1">
+                  <span>{session.violationCount} violations</span>
+                  {session.pendingCount > 0 ? (
+                    <Badge variant="destructive">{session.pendingCount} pending</Badge>
+                  ) : (
+                    <Badge variant="secondary">Reviewed</Badge>
+                  )}
+                </div>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          {isLoadingReview && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {review && (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold">{review.candidateName}</h2>
+                  <p className="text-xs text-muted-foreground">Session {review.sessionId}</p>
+                </div>
+                <Button asChild variant="outline" size="sm">
+                  <Link to={`/replay/${review.sessionId}`}>Replay Attempt</Link>
+                </Button>
+              </div>
+              {review.violations.length === 0 && (
+                <p className="text-sm text-muted-foreground">This session has no recorded violations.</p>
+              )}
+              {review.violations.map((violation) => (
+                <ViolationReviewItem
+                  key={`${review.sessionId}-${violation.sequence}`}
+                  violation={violation}
+                  snapshots={getEvidenceSnapshots(review.snapshots, violation)}
+                  decision={review.decisions[violation.sequence]}
+                  onSave={handleSaveDecision}
+                />
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Review;
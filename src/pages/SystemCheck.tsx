@@ -0,0 +1,287 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Camera, Mic, Monitor, Wifi, ClipboardCheck, CheckCircle, XCircle, AlertTriangle } from "lucide-react";
+import { computeRms } from "@/lib/proctoring/voiceActivity";
+import { detectVirtualCamera } from "@/lib/proctoring/deviceIntegrity";
+import {
+  buildSystemCheckReport,
+  checkBrowser,
+  checkFullscreen,
+  measureClockSkew,
+  measureUploadBandwidth,
+  saveSystemCheckReport,
+  type SystemCheckId,
+  type SystemCheckReport,
+  type SystemCheckResult,
+} from "@/lib/proctoring/systemCheck";
+
+const STEPS = [
+  { title: "Browser", icon: Monitor },
+  { title: "Camera", icon: Camera },
+  { title: "Microphone", icon: Mic },
+  { title: "Network", icon: Wifi },
+  { title: "Report", icon: ClipboardCheck },
+];
+
+// RMS level the candidate's voice has to reach for the microphone to pass
+const MIC_PASS_LEVEL = 0.02;
+
+const StatusIcon = ({ status }: { status: SystemCheckResult["status"] }) => {
+  if (status === "pass") return <CheckCircle className="h-5 w-5 text-green-600" />;
+  if (status === "warn") return <AlertTriangle className="h-5 w-5 text-yellow-600" />;
+  return <XCircle className="h-5 w-5 text-red-600" />;
+};
+
+const ResultRow = ({ result }: { result: SystemCheckResult }) => (
+  <div className="flex items-start gap-3 p-3 border rounded-lg">
+    <StatusIcon status={result.status} />
+    <div>
+      <p className="font-medium">{result.label}</p>
+      <p className="text-sm text-muted-foreground">{result.detail}</p>
+    </div>
+  </div>
+);
+
+const SystemCheck = () => {
+  const [step, setStep] = useState(0);
+  const [results, setResults] = useState<Partial<Record<SystemCheckId, SystemCheckResult>>>({});
+  const [micLevel, setMicLevel] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<SystemCheckReport | null>(null);
+  const navigate = useNavigate();
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const setResult = useCallback((result: SystemCheckResult) => {
+    setResults((prev) => ({ ...prev, [result.id]: result }));
+  }, []);
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach((t) => t.stop());
+    streamRef.current = null;
+  }, []);
+
+  useEffect(() => stopStream, [stopStream]);
+
+  // Browser and fullscreen support
+  useEffect(() => {
+    if (step !== 0) return;
+    setResult(checkBrowser());
+    setResult(checkFullscreen());
+  }, [step, setResult]);
+
+  // Camera preview
+  useEffect(() => {
+    if (step !== 1) return;
+
+    const startCamera = async () => {
+      try {
+        if (!streamRef.current) {
+          streamRef.current = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+        }
+        if (videoRef.current) videoRef.current.srcObject = streamRef.current;
+      } catch (error) {
+        console.error("Error accessing camera:", error);
+        setResult({ id: 'camera', label: 'Camera', status: 'fail', detail: 'Camera access was denied or no camera was found' });
+      }
+    };
+
+    startCamera();
+  }, [step, setResult]);
+
+  // Microphone level meter
+  useEffect(() => {
+    if (step !== 2 || !streamRef.current) return;
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    audioContext.createMediaStreamSource(streamRef.current).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    const interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = computeRms(samples);
+      setMicLevel(rms);
+      if (rms >= MIC_PASS_LEVEL) {
+        setResult({ id: 'microphone', label: 'Microphone', status: 'pass', detail: 'Your voice was picked up clearly' });
+      }
+    }, 100);
+
+    return () => {
+      clearInterval(interval);
+      audioContext.close();
+    };
+  }, [step, setResult]);
+
+  // Bandwidth and clock skew
+  useEffect(() => {
+    if (step !== 3) return;
+
+    const runNetworkChecks = async () => {
+      setIsRunning(true);
+      setResult(await measureUploadBandwidth());
+      setResult(await measureClockSkew());
+      setIsRunning(false);
+    };
+
+    runNetworkChecks();
+  }, [step, setResult]);
+
+  const handleCameraLoaded = () => {
+    const video = videoRef.current;
+    if (!video?.videoWidth) return;
+
+    const virtualCamera = streamRef.current && detectVirtualCamera(streamRef.current);
+    if (virtualCamera) {
+      setResult({
+        id: 'camera',
+        label: 'Camera',
+        status: 'fail',
+        detail: `"${virtualCamera}" looks like a virtual camera. Please select your physical webcam.`,
+      });
+      return;
+    }
+
+    setResult({
+      id: 'camera',
+      label: 'Camera',
+      status: 'pass',
+      detail: `Camera is streaming at ${video.videoWidth}x${video.videoHeight}`,
+      value: video.videoWidth,
+    });
+  };
+
+  const handleNext = () => {
+    if (step === 1 && !results.camera) {
+      setResult({ id: 'camera', label: 'Camera', status: 'fail', detail: 'No video was received from the camera' });
+    }
+
+    if (step === 2) {
+      if (!results.microphone) {
+        setResult({ id: 'microphone', label: 'Microphone', status: 'fail', detail: 'No sound was picked up from the microphone' });
+      }
+      stopStream();
+    }
+
+    if (step === STEPS.length - 2) {
+      const finalReport = buildSystemCheckReport(Object.values(results));
+      saveSystemCheckReport(finalReport);
+      setReport(finalReport);
+    }
+
+    setStep((prev) => Math.min(prev + 1, STEPS.length - 1));
+  };
+
+  const handleRestart = () => {
+    stopStream();
+    setResults({});
+    setReport(null);
+    setMicLevel(0);
+    setStep(0);
+  };
+
+  const stepResults: Record<number, SystemCheckId[]> = {
+    0: ['browser', 'fullscreen'],
+    1: ['camera'],
+    2: ['microphone'],
+    3: ['bandwidth', 'clock'],
+  };
+
+  const currentResults = (stepResults[step] ?? [])
+    .map((id) => results[id])
+    .filter(Boolean);
+
+  // Camera and microphone can be skipped; a missing result is then recorded as a failure
+  const canContinue = step === 1 || step === 2 || (!isRunning && currentResults.length === (stepResults[step] ?? []).length);
+  const CurrentIcon = STEPS[step].icon;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center pt-20 px-4">
+      <Card className="w-full max-w-xl">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-lg">
+              <CurrentIcon className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <CardTitle>System Check - {STEPS[step].title}</CardTitle>
+              <CardDescription>
+                Step {step + 1} of {STEPS.length}. We check your setup before the exam starts.
+              </CardDescription>
+            </div>
+          </div>
+          <Progress value={((step + 1) / STEPS.length) * 100} className="h-2 mt-4" />
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {step === 1 && (
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedData={handleCameraLoaded}
+              className="w-full rounded-lg bg-muted aspect-video object-cover"
+            />
+          )}
+
+          {step === 2 && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Say a few words out loud. The bar should move as you speak.</p>
+              <Progress value={Math.min(micLevel / (MIC_PASS_LEVEL * 3), 1) * 100} className="h-3" />
+            </div>
+          )}
+
+          {step === 3 && isRunning && (
+            <div className="flex items-center gap-3">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
+              <p className="text-sm">Testing your connection to the proctoring server...</p>
+            </div>
+          )}
+
+          {step < STEPS.length - 1 && currentResults.map((result) => (
+            <ResultRow key={result.id} result={result} />
+          ))}
+
+          {step === STEPS.length - 1 && report && (
+            <>
+              <Alert variant={report.passed ? "default" : "destructive"}>
+                <AlertDescription>
+                  {report.passed
+                    ? "✅ Your system is ready. This report will be attached to your exam session."
+                    : "❌ Some checks failed. Please fix the issues below and run the check again."}
+                </AlertDescription>
+              </Alert>
+              {report.checks.map((result) => (
+                <ResultRow key={result.id} result={result} />
+              ))}
+            </>
+          )}
+
+          <div className="flex justify-between pt-2">
+            <Button variant="outline" onClick={handleRestart} disabled={step === 0}>
+              Start Over
+            </Button>
+            {step < STEPS.length - 1 ? (
+              <Button onClick={handleNext} disabled={!canContinue}>
+                {(step === 1 && !results.camera) || (step === 2 && !results.microphone) ? "Skip" : "Next"}
+              </Button>
+            ) : (
+              <Button onClick={() => navigate("/quiz")} disabled={!report?.passed}>
+                Start Exam
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SystemCheck;
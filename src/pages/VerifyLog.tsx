@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { CheckCircle2, Loader2, ShieldAlert } from "lucide-react";
+import { verifyExportedLog, type ChainVerificationResult, type ExportedViolationLog } from "@/lib/proctoring/logChain";
+
+// Lets an institution check an exported violation log file without any server involved
+const VerifyLog = () => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [exported, setExported] = useState<ExportedViolationLog | null>(null);
+  const [result, setResult] = useState<ChainVerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setExported(null);
+    setResult(null);
+    setError(null);
+    setIsVerifying(true);
+
+    try {
+      const parsed: ExportedViolationLog = JSON.parse(await file.text());
+      if (!parsed.sessionId || !Array.isArray(parsed.violationLog)) {
+        throw new Error("This file is not an exported violation log");
+      }
+      setExported(parsed);
+      setResult(await verifyExportedLog(parsed));
+    } catch (err) {
+      console.error('Error verifying violation log:', err);
+      setError(err instanceof Error ? err.message : "Failed to verify the log");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Verify Violation Log</CardTitle>
+          <CardDescription>
+            Checks that no entry in an exported log was removed, reordered or altered since it was recorded.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="violation-log">Exported log (JSON)</Label>
+          <Input id="violation-log" type="file" accept="application/json,.json" onChange={handleFileChange} />
+        </CardContent>
+      </Card>
+
+      {isVerifying && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {exported && result && (
+        <Alert variant={result.valid ? "default" : "destructive"}>
+          {result.valid ? <CheckCircle2 className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+          <AlertTitle>{result.valid ? "Log is intact" : "Log has been tampered with or is incomplete"}</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>
+              {fileName} · session {exported.sessionId} · {result.verifiedEntries} of {exported.violationLog.length} entries verified
+            </p>
+            {result.errors.length > 0 && (
+              <ul className="list-disc pl-5 text-sm">
+                {result.errors.map((e, index) => (
+                  <li key={index}>
+                    Entry {e.sequence}: {e.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
+
+export default VerifyLog;
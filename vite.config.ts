@@ -1,6 +1,7 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { viteStaticCopy } from "vite-plugin-static-copy";
 import { componentTagger } from "lovable-tagger";
 
 // https://vitejs.dev/config/
@@ -9,7 +10,23 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    // Serve the face-api model weights from /models so detection runs fully offline
+    viteStaticCopy({
+      targets: [
+        {
+          src: [
+            "node_modules/@vladmandic/face-api/model/tiny_face_detector_model*",
+            "node_modules/@vladmandic/face-api/model/face_landmark_68_tiny_model*",
+            "node_modules/@vladmandic/face-api/model/face_recognition_model*",
+          ],
+          dest: "models",
+        },
+      ],
+    }),
+    mode === "development" && componentTagger(),
+  ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),